@@ -1,50 +1,244 @@
-import { AsyncLocalStorage } from "async_hooks";
-import { ZodSchema } from "zod";
+import type { AsyncLocalStorage } from "async_hooks";
+import { ZodSchema, type ZodType, type ZodTypeAny } from "zod";
+import { StorageDriver } from "../enums/storage-driver.js";
+import { DrizzleTransactionalError } from "../errors/transactional.js";
+import {
+  AsyncLocalStorageDriver,
+  ManualContextStorageDriver,
+  type ContextStorageDriver,
+  type ContextStore,
+} from "./storage-drivers.js";
 
 /**
- * The global AsyncLocalStorage instance for storing transactional context
+ * The AsyncLocalStorage driver, created when it is first selected
  */
-const asyncLocalStorage = new AsyncLocalStorage<Map<string, unknown>>();
+let asyncLocalStorageDriver: AsyncLocalStorageDriver | undefined;
 
 /**
- * Get the current transactional context
+ * The driver every context function goes through. The AsyncLocalStorage
+ * driver is used unless another one is selected before the first context.
  */
-export function getContext(): Record<string, unknown> {
-  const context = asyncLocalStorage.getStore();
-  if (context instanceof Map) {
-    return Object.fromEntries(context);
+let driver: ContextStorageDriver | undefined;
+
+/**
+ * Get the AsyncLocalStorage driver, creating it on first use
+ */
+function getAsyncLocalStorageDriver(): AsyncLocalStorageDriver {
+  asyncLocalStorageDriver ??= new AsyncLocalStorageDriver();
+  return asyncLocalStorageDriver;
+}
+
+/**
+ * Types of the context values registered with a schema. Augment it to get
+ * typed reads and writes:
+ *
+ * declare module "drizzle-transactional" {
+ *   interface RegisteredContext
+ *     extends z.infer<z.ZodObject<typeof contextSchema>> {}
+ * }
+ */
+export interface RegisteredContext {}
+
+/**
+ * Schemas of context values by key
+ */
+let contextSchemas: Readonly<Record<string, ZodTypeAny>> = {};
+
+/**
+ * Register the schemas context values are validated against when written.
+ * Replaces the previously registered schemas.
+ */
+export function registerContextSchemas(
+  schemas: Readonly<Record<string, ZodTypeAny>>
+): void {
+  contextSchemas = schemas;
+}
+
+/**
+ * Validate a value against a schema, returning the parsed value
+ */
+function parseContextValue<T>(
+  key: string,
+  schema: ZodType<T> | undefined,
+  value: unknown
+): T {
+  if (!schema) {
+    return value as T;
+  }
+
+  const result = schema.safeParse(value);
+  if (result.success) {
+    return result.data;
   }
-  return {};
+  throw DrizzleTransactionalError.contextValidation(
+    key,
+    result.error.issues,
+    result.error.message
+  );
+}
+
+/**
+ * Select the driver that keeps the context. Contexts started with the
+ * previous driver are not carried over, so select it before starting any.
+ */
+export function setContextStorageDriver(
+  storageDriver: StorageDriver | ContextStorageDriver
+): void {
+  if (typeof storageDriver === "object") {
+    driver = storageDriver;
+    return;
+  }
+
+  switch (storageDriver) {
+    case StorageDriver.ASYNC_LOCAL_STORAGE:
+      driver = getAsyncLocalStorageDriver();
+      break;
+    case StorageDriver.MANUAL:
+      driver = new ManualContextStorageDriver();
+      break;
+    default:
+      throw new Error(`Invalid storage driver: ${storageDriver}`);
+  }
+}
+
+/**
+ * Get the driver that keeps the context
+ */
+export function getContextStorageDriver(): ContextStorageDriver {
+  driver ??= getAsyncLocalStorageDriver();
+  return driver;
+}
+
+/**
+ * Options for creating a context key
+ */
+export interface ContextKeyOptions<T> {
+  /**
+   * Value returned while none was set
+   */
+  default?: T;
+
+  /**
+   * Schema every written value is validated against
+   */
+  schema?: ZodType<T>;
+}
+
+/**
+ * Typed handle to a context value, backed by a private symbol so it can't
+ * clash with other keys
+ */
+export interface ContextKey<T, R extends T | undefined = T | undefined> {
+  readonly name: string;
+
+  /**
+   * Get the value of the current context, or the default
+   */
+  get(): R;
+
+  /**
+   * Set the value in the current context. Does nothing outside a context.
+   */
+  set(value: T): void;
+
+  /**
+   * Run a function in a copy of the current context with the value set
+   */
+  run<U>(value: T, fn: () => U): U;
+}
+
+/**
+ * Create a typed context key
+ */
+export function createContextKey<T>(
+  name: string,
+  options: ContextKeyOptions<T> & { default: T }
+): ContextKey<T, T>;
+export function createContextKey<T>(
+  name: string,
+  options?: ContextKeyOptions<T>
+): ContextKey<T>;
+export function createContextKey<T>(
+  name: string,
+  options?: ContextKeyOptions<T>
+): ContextKey<T> {
+  const symbol = Symbol(name);
+
+  const validate = (value: T): T =>
+    parseContextValue(name, options?.schema, value);
+
+  return {
+    name,
+    get: () => {
+      const store = getContextStorageDriver().getStore();
+      return store?.has(symbol)
+        ? (store.get(symbol) as T)
+        : (options?.default as T);
+    },
+    set: (value) => {
+      getContextStorageDriver().getStore()?.set(symbol, validate(value));
+    },
+    run: (value, fn) => {
+      const store: ContextStore = new Map(getContextStorageDriver().getStore());
+      store.set(symbol, validate(value));
+      return getContextStorageDriver().run(store, fn);
+    },
+  };
+}
+
+/**
+ * Get the string-keyed values of a context store
+ */
+function toContextObject(
+  store: ContextStore | undefined
+): Record<string, unknown> {
+  const context: Record<string, unknown> = {};
+  store?.forEach((value, key) => {
+    if (typeof key === "string") {
+      context[key] = value;
+    }
+  });
+  return context;
+}
+
+/**
+ * Get the current transactional context. Values of context keys are left out.
+ */
+export function getContext(): Record<string, unknown> {
+  return toContextObject(getContextStorageDriver().getStore());
 }
 
 /**
  * Get the current transactional context validated against a Zod schema
  */
 export function getZodContext<T extends object>(schema: ZodSchema<T>): T {
-  const context = asyncLocalStorage.getStore();
-  const contextObj = context instanceof Map ? Object.fromEntries(context) : {};
-  const result = schema.safeParse(contextObj);
+  const result = schema.safeParse(getContext());
 
   if (result.success) {
     return result.data;
   }
 
-  throw new Error(`Context does not match schema: ${result.error.message}`);
+  throw DrizzleTransactionalError.contextValidation(
+    undefined,
+    result.error.issues,
+    result.error.message
+  );
 }
 
 /**
  * Run a function with a specific transactional context
  * Optimized to avoid unnecessary Map operations
+ * Values with a registered schema are validated first.
  */
 export function runWithContext<T>(
-  context: Record<string, unknown>,
+  context: Partial<RegisteredContext> & Record<string, unknown>,
   fn: () => T
 ): T {
-  const currentStore = asyncLocalStorage.getStore();
+  const currentStore = getContextStorageDriver().getStore();
 
   // If no current store and no context to add, just run the function
   if (!currentStore && Object.keys(context).length === 0) {
-    return asyncLocalStorage.run(new Map(), fn);
+    return getContextStorageDriver().run(new Map(), fn);
   }
 
   const newStore = new Map(currentStore);
@@ -53,28 +247,38 @@ export function runWithContext<T>(
   const contextEntries = Object.entries(context);
   if (contextEntries.length > 0) {
     for (const [key, value] of contextEntries) {
-      newStore.set(key, value);
+      newStore.set(key, parseContextValue(key, contextSchemas[key], value));
     }
   }
 
-  return asyncLocalStorage.run(newStore, fn);
+  return getContextStorageDriver().run(newStore, fn);
 }
 
 /**
  * Get a value from the current context by key
  */
+export function getContextValue<K extends keyof RegisteredContext & string>(
+  key: K
+): RegisteredContext[K] | undefined;
+export function getContextValue<T>(key: string): T | undefined;
 export function getContextValue<T>(key: string): T | undefined {
-  const store = asyncLocalStorage.getStore();
+  const store = getContextStorageDriver().getStore();
   return store?.get(key) as T | undefined;
 }
 
 /**
- * Set a value in the current context
+ * Set a value in the current context. Values with a registered schema are
+ * validated first.
  */
+export function setContextValue<K extends keyof RegisteredContext & string>(
+  key: K,
+  value: RegisteredContext[K]
+): void;
+export function setContextValue(key: string, value: unknown): void;
 export function setContextValue(key: string, value: unknown): void {
-  const store = asyncLocalStorage.getStore();
+  const store = getContextStorageDriver().getStore();
   if (store) {
-    store.set(key, value);
+    store.set(key, parseContextValue(key, contextSchemas[key], value));
   }
 }
 
@@ -82,14 +286,13 @@ export function setContextValue(key: string, value: unknown): void {
  * Check if we're currently running in a transactional context
  */
 export function hasActiveContext(): boolean {
-  return asyncLocalStorage.getStore() !== undefined;
+  return getContextStorageDriver().getStore() !== undefined;
 }
 
 /**
- * Get the raw AsyncLocalStorage instance (for advanced usage)
+ * Get the raw AsyncLocalStorage instance of the AsyncLocalStorage driver
+ * (for advanced usage)
  */
-export function getAsyncLocalStorage(): AsyncLocalStorage<
-  Map<string, unknown>
-> {
-  return asyncLocalStorage;
+export function getAsyncLocalStorage(): AsyncLocalStorage<ContextStore> {
+  return getAsyncLocalStorageDriver().storage;
 }
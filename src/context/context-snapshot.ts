@@ -0,0 +1,53 @@
+import { getContextStorageDriver } from "./async-local-storage.js";
+import { getCompletedTransactionDatabases } from "../drizzle/database-manager.js";
+import { DrizzleTransactionalError } from "../errors/transactional.js";
+
+/**
+ * Context captured at one point, to be restored in callbacks that lose it
+ */
+export interface ContextSnapshot {
+  /**
+   * Copy of the context values at capture time, context keys included
+   */
+  readonly store: ReadonlyMap<string | symbol, unknown>;
+}
+
+/**
+ * Capture the current context, including its transactions
+ */
+export function captureContext(): ContextSnapshot {
+  return { store: new Map(getContextStorageDriver().getStore()) };
+}
+
+/**
+ * Run a function in a captured context. Throws CONTEXT_SNAPSHOT_EXPIRED when
+ * a transaction of the snapshot has completed in the meantime, instead of
+ * letting the transactional proxy fall back to the base database.
+ */
+export function runInCapturedContext<T>(
+  snapshot: ContextSnapshot,
+  fn: () => T
+): T {
+  // Values set by fn stay within this call
+  return getContextStorageDriver().run(new Map(snapshot.store), () => {
+    const completed = getCompletedTransactionDatabases();
+    if (completed.length > 0) {
+      throw DrizzleTransactionalError.contextSnapshotExpired(completed);
+    }
+    return fn();
+  });
+}
+
+/**
+ * Bind a function to the current context, for callbacks run by event
+ * emitters, timers or pools that don't keep it
+ */
+export function bindToContext<Fn extends (this: any, ...args: any[]) => any>(
+  fn: Fn
+): Fn {
+  const snapshot = captureContext();
+
+  return function (this: unknown, ...args: unknown[]) {
+    return runInCapturedContext(snapshot, () => fn.apply(this, args));
+  } as Fn;
+}
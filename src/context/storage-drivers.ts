@@ -0,0 +1,149 @@
+import type { AsyncLocalStorage } from "async_hooks";
+import { DrizzleTransactionalError } from "../errors/transactional.js";
+
+/**
+ * Context values by key. String keys are set through the plain context
+ * functions, symbol keys belong to context keys.
+ */
+export type ContextStore = Map<string | symbol, unknown>;
+
+/**
+ * Keeps the context store of the current asynchronous flow. Implement it to
+ * use another propagation mechanism, such as the upcoming AsyncContext.
+ */
+export interface ContextStorageDriver {
+  /**
+   * Get the store of the current flow, if any
+   */
+  getStore(): ContextStore | undefined;
+
+  /**
+   * Run a function, and everything it starts, with the given store
+   */
+  run<T>(store: ContextStore, fn: () => T): T;
+}
+
+/**
+ * Load AsyncLocalStorage when the driver is created rather than when the
+ * library is imported, so runtimes without async_hooks can select another
+ * driver. Node.js provides it through process.getBuiltinModule (or require in
+ * the CommonJS build), some edge runtimes as a global.
+ */
+function loadAsyncLocalStorage(): typeof AsyncLocalStorage {
+  const runtime = globalThis as typeof globalThis & {
+    AsyncLocalStorage?: typeof AsyncLocalStorage;
+  };
+  const asyncHooks =
+    runtime.process?.getBuiltinModule?.("async_hooks") ??
+    (typeof require === "function"
+      ? (require("async_hooks") as typeof import("async_hooks"))
+      : undefined);
+
+  const AsyncLocalStorageClass =
+    asyncHooks?.AsyncLocalStorage ?? runtime.AsyncLocalStorage;
+  if (!AsyncLocalStorageClass) {
+    throw DrizzleTransactionalError.asyncLocalStorageUnavailable();
+  }
+  return AsyncLocalStorageClass;
+}
+
+/**
+ * Driver based on Node.js AsyncLocalStorage
+ */
+export class AsyncLocalStorageDriver implements ContextStorageDriver {
+  readonly storage: AsyncLocalStorage<ContextStore> =
+    new (loadAsyncLocalStorage())<ContextStore>();
+
+  getStore(): ContextStore | undefined {
+    return this.storage.getStore();
+  }
+
+  run<T>(store: ContextStore, fn: () => T): T {
+    return this.storage.run(store, fn);
+  }
+}
+
+/**
+ * Driver for runtimes without AsyncLocalStorage and for tests. It holds a
+ * single current store: run() sets it until the function (or the promise it
+ * returns) settles, and enterWith() sets it by hand. Concurrent asynchronous
+ * flows would see each other's store, so a run() whose promise settles while
+ * a run() started after it is still pending rejects with
+ * CONTEXT_RUNS_OVERLAP.
+ */
+export class ManualContextStorageDriver implements ContextStorageDriver {
+  private current: ContextStore | undefined;
+
+  /**
+   * run() calls that haven't finished yet, latest last, with the store to
+   * restore once they do
+   */
+  private readonly pending: Array<{ previous: ContextStore | undefined }> = [];
+
+  getStore(): ContextStore | undefined {
+    return this.current;
+  }
+
+  run<T>(store: ContextStore, fn: () => T): T {
+    // Registered before fn runs, so runs nested in it come after this one
+    const entry = { previous: this.current };
+    this.pending.push(entry);
+    this.current = store;
+
+    let result: T;
+    try {
+      result = fn();
+    } catch (error) {
+      this.finish(entry);
+      this.current = entry.previous;
+      throw error;
+    }
+
+    if (result instanceof Promise) {
+      // Restored before the caller's continuation runs
+      const settle = () => {
+        // With a later run still pending, the store is left to that run
+        if (!this.finish(entry)) {
+          throw DrizzleTransactionalError.contextRunsOverlap();
+        }
+        this.current = entry.previous;
+      };
+      return result.then(
+        (value) => {
+          settle();
+          return value;
+        },
+        (error) => {
+          settle();
+          throw error;
+        }
+      ) as T;
+    }
+
+    this.finish(entry);
+    this.current = entry.previous;
+    return result;
+  }
+
+  /**
+   * Remove a finished run. Returns false when a run started after it is
+   * still pending, which then restores the store this run replaced.
+   */
+  private finish(entry: { previous: ContextStore | undefined }): boolean {
+    const index = this.pending.indexOf(entry);
+    this.pending.splice(index, 1);
+    if (index === this.pending.length) {
+      return true;
+    }
+
+    this.pending[index].previous = entry.previous;
+    return false;
+  }
+
+  /**
+   * Make a store (e.g. one passed along by hand) the current one
+   */
+  enterWith(store: ContextStore | undefined): void {
+    this.current = store;
+  }
+}
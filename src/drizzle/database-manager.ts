@@ -1,8 +1,8 @@
 import { randomUUID } from "crypto";
+import { sql } from "drizzle-orm";
 import {
-  getContextValue,
-  setContextValue,
-  runWithContext,
+  createContextKey,
+  getContext,
 } from "../context/async-local-storage.js";
 import type {
   DrizzleDatabase,
@@ -11,9 +11,123 @@ import type {
   TransactionalDatabaseInfo,
 } from "../types/index.js";
 import { DrizzleTransactionalError } from "../errors/transactional.js";
+import type { IsolationLevel } from "../enums/isolation-level.js";
+import { TransactionStatus } from "../enums/transaction-status.js";
 
-const DATABASE_MAP_KEY = "@drizzle-transactional/databases";
-const CURRENT_DB_ID_KEY = "@drizzle-transactional/current-db-id";
+/**
+ * Transactions of the current context, keyed by database name. A context
+ * kept alive by a callback can outlive its transactions, which then show up
+ * here as completed.
+ */
+type CurrentTransactions = Readonly<
+  Record<DatabaseName, TrackedTransaction | undefined>
+>;
+
+const CURRENT_TRANSACTIONS_KEY = createContextKey<CurrentTransactions>(
+  "@drizzle-transactional/current-transactions"
+);
+
+/**
+ * Additional options for starting a database transaction
+ */
+export interface DatabaseTransactionOptions {
+  /**
+   * Time in milliseconds after which the running statement is cancelled on
+   * the server and the transaction is rolled back
+   */
+  timeout?: number;
+
+  /**
+   * Start the transaction in READ ONLY access mode
+   */
+  readOnly?: boolean;
+
+  /**
+   * Start the transaction as DEFERRABLE (only effective for read-only
+   * serializable transactions)
+   */
+  deferrable?: boolean;
+
+  /**
+   * Name of the transaction, used in errors about its misuse
+   */
+  name?: string | symbol;
+
+  /**
+   * Holds the stack trace of the call that started the transaction, used in
+   * errors about its misuse. Captured here when not given, which may leave
+   * out the caller's frames behind the library's own.
+   */
+  origin?: { stack?: string };
+}
+
+/**
+ * Called right after BEGIN, before any other statement of the transaction
+ */
+export type TransactionStartHandler = (
+  transaction: DrizzleTransaction,
+  context: Record<string, unknown>,
+  databaseName: DatabaseName
+) => void | Promise<void>;
+
+/**
+ * A transaction (or savepoint) together with the settings it was started
+ * with and its completion state
+ */
+interface TrackedTransaction {
+  transactionId: string;
+  name: string | undefined;
+
+  /**
+   * The Drizzle transaction, guarded against use after completion
+   */
+  transaction: DrizzleTransaction;
+
+  isolationLevel: IsolationLevel | undefined;
+  readOnly: boolean;
+  rollbackOnly: boolean;
+  status: TransactionStatus;
+
+  /**
+   * Holds the stack trace of the call that started the transaction. It is
+   * only formatted when read.
+   */
+  origin: { stack?: string };
+}
+
+/**
+ * Query builder methods that write and are rejected in read-only transactions
+ */
+const WRITE_METHODS = new Set<string | symbol>(["insert", "update", "delete"]);
+
+/**
+ * Query entry points of a Drizzle transaction, rejected once it completed
+ */
+const QUERY_METHODS = new Set<string | symbol>([
+  "select",
+  "selectDistinct",
+  "selectDistinctOn",
+  "insert",
+  "update",
+  "delete",
+  "with",
+  "$count",
+  "refreshMaterializedView",
+  "execute",
+  "transaction",
+  "query",
+]);
+
+/**
+ * Methods of a Drizzle session that run queries, for query builders that
+ * were created before the transaction completed
+ */
+const SESSION_QUERY_METHODS = new Set<string | symbol>([
+  "prepareQuery",
+  "execute",
+  "all",
+  "transaction",
+]);
 
 /**
  * Map of registered database instances
@@ -21,9 +135,17 @@ const CURRENT_DB_ID_KEY = "@drizzle-transactional/current-db-id";
 const registeredDatabases = new Map<DatabaseName, DrizzleDatabase>();
 
 /**
- * Map of active transaction databases by transaction ID
+ * Start handlers for every database
  */
-const transactionDatabases = new Map<string, DrizzleTransaction>();
+const globalStartHandlers = new Set<TransactionStartHandler>();
+
+/**
+ * Start handlers by database name
+ */
+const databaseStartHandlers = new Map<
+  DatabaseName,
+  Set<TransactionStartHandler>
+>();
 
 /**
  * Register a Drizzle database instance for transactional usage
@@ -64,6 +186,137 @@ export function removeDrizzleDatabaseByName(
   return registeredDatabases.delete(name);
 }
 
+/**
+ * Get the transaction the current context runs for a given database, even
+ * if it has completed since
+ */
+function getTrackedTransaction(
+  name: DatabaseName
+): TrackedTransaction | undefined {
+  return CURRENT_TRANSACTIONS_KEY.get()?.[name];
+}
+
+/**
+ * Run a function with the transaction of a single database replaced,
+ * leaving the transactions of other databases untouched
+ */
+function runWithTransaction<T>(
+  name: DatabaseName,
+  transaction: TrackedTransaction | undefined,
+  fn: () => T
+): T {
+  return CURRENT_TRANSACTIONS_KEY.run(
+    { ...CURRENT_TRANSACTIONS_KEY.get(), [name]: transaction },
+    fn
+  );
+}
+
+/**
+ * Create the error for a query issued through a completed transaction
+ */
+function transactionAlreadyCompleted(
+  databaseName: DatabaseName,
+  tracked: TrackedTransaction
+): DrizzleTransactionalError {
+  return DrizzleTransactionalError.transactionAlreadyCompleted(
+    databaseName,
+    tracked.status,
+    {
+      transactionId: tracked.transactionId,
+      name: tracked.name,
+      startStack: tracked.origin.stack,
+    }
+  );
+}
+
+/**
+ * Wrap a Drizzle transaction so that queries through it throw once it
+ * completed, e.g. when it was kept in a closure that runs later. Query
+ * builders keep the session they were created with, so it is guarded as well
+ * and a builder created before the commit can't run after it either.
+ */
+function guardTransaction(
+  databaseName: DatabaseName,
+  tracked: TrackedTransaction,
+  tx: DrizzleTransaction
+): DrizzleTransaction {
+  const assertActive = () => {
+    if (tracked.status !== TransactionStatus.ACTIVE) {
+      throw transactionAlreadyCompleted(databaseName, tracked);
+    }
+  };
+  const session = new Proxy((tx as any).session, {
+    get(target, prop, receiver) {
+      if (SESSION_QUERY_METHODS.has(prop)) {
+        assertActive();
+      }
+      return Reflect.get(target, prop, receiver);
+    },
+  });
+
+  return new Proxy(tx, {
+    get(target, prop, receiver) {
+      if (prop === "session") {
+        return session;
+      }
+      if (QUERY_METHODS.has(prop)) {
+        assertActive();
+      }
+      return Reflect.get(target, prop, receiver);
+    },
+  });
+}
+
+/**
+ * Get the ID of the innermost transaction (or savepoint) the current context
+ * runs on a database
+ */
+export function getCurrentTransactionId(
+  name: DatabaseName = "default"
+): string | undefined {
+  return getTrackedTransaction(name)?.transactionId;
+}
+
+/**
+ * Get the databases whose transaction (or savepoint) recorded in the current
+ * context has already completed, e.g. in a context captured earlier
+ */
+export function getCompletedTransactionDatabases(): DatabaseName[] {
+  return Object.entries(CURRENT_TRANSACTIONS_KEY.get() ?? {})
+    .filter(
+      ([, tracked]) =>
+        tracked !== undefined && tracked.status !== TransactionStatus.ACTIVE
+    )
+    .map(([name]) => name);
+}
+
+/**
+ * Check if the current context runs a transaction on the given database that
+ * is still running. A context that outlived its transaction, e.g. in a timer
+ * started inside it, has none.
+ */
+export function hasActiveTransaction(name: DatabaseName = "default"): boolean {
+  return getActiveTransaction(name) !== undefined;
+}
+
+/**
+ * Get the ID and isolation level of the transaction (or savepoint) the
+ * current context runs on a database, if it is still running
+ */
+export function findActiveTransaction(
+  name: DatabaseName = "default"
+):
+  | { transactionId: string; isolationLevel: IsolationLevel | undefined }
+  | undefined {
+  const activeTransaction = getActiveTransaction(name);
+  return (
+    activeTransaction && {
+      transactionId: activeTransaction.transactionId,
+      isolationLevel: activeTransaction.isolationLevel,
+    }
+  );
+}
+
 /**
  * Get the current transactional database info for a given database name
  */
@@ -71,31 +324,106 @@ export function getCurrentDatabaseInfo(
   name: DatabaseName = "default"
 ): TransactionalDatabaseInfo {
   const baseDatabase = getDrizzleDatabaseByName(name);
-  const currentDbId = getContextValue<string>(CURRENT_DB_ID_KEY);
+  const tracked = getTrackedTransaction(name);
 
-  if (!currentDbId) {
+  if (!tracked) {
     // Not in a transaction context
     return {
       database: baseDatabase,
       isTransacting: false,
+      isReadOnly: false,
+      isolationLevel: undefined,
       baseDatabase,
     };
   }
 
-  const transactionDb = transactionDatabases.get(currentDbId);
-  if (!transactionDb) {
-    throw new DrizzleTransactionalError(
-      `No transaction database found for ID: ${currentDbId}`
-    );
+  // The context outlived its transaction, e.g. in a timer started inside it
+  if (tracked.status !== TransactionStatus.ACTIVE) {
+    throw transactionAlreadyCompleted(name, tracked);
   }
 
   return {
-    database: transactionDb as any, // Type assertion needed due to Drizzle's complex types
+    database: tracked.transaction as any, // Type assertion needed due to Drizzle's complex types
     isTransacting: true,
+    isReadOnly: tracked.readOnly,
+    isolationLevel: tracked.isolationLevel,
     baseDatabase,
   };
 }
 
+/**
+ * Get the state of the innermost transaction (or savepoint) the current
+ * context runs on a database, if it is still running
+ */
+function getActiveTransaction(
+  name: DatabaseName
+): TrackedTransaction | undefined {
+  const tracked = getTrackedTransaction(name);
+  return tracked?.status === TransactionStatus.ACTIVE ? tracked : undefined;
+}
+
+/**
+ * Get the isolation level of the current transaction on a database. When the
+ * transaction was started without an explicit level, the effective level is
+ * read from the server once and cached.
+ */
+export async function getCurrentIsolationLevel(
+  name: DatabaseName = "default"
+): Promise<IsolationLevel | undefined> {
+  const activeTransaction = getActiveTransaction(name);
+  if (!activeTransaction) {
+    return undefined;
+  }
+
+  if (activeTransaction.isolationLevel === undefined) {
+    const result: any = await activeTransaction.transaction.execute(
+      sql`show transaction_isolation`
+    );
+    const rows = Array.isArray(result) ? result : result.rows;
+    activeTransaction.isolationLevel = rows[0].transaction_isolation;
+  }
+
+  return activeTransaction.isolationLevel;
+}
+
+/**
+ * Mark the current transaction (or savepoint) on a database as rollback-only.
+ * It keeps running, but is rolled back instead of committed when the call that
+ * started it finishes.
+ */
+export function setRollbackOnly(name: DatabaseName = "default"): void {
+  const activeTransaction = getActiveTransaction(name);
+  if (!activeTransaction) {
+    throw DrizzleTransactionalError.noActiveTransaction(
+      name,
+      "mark a transaction as rollback-only"
+    );
+  }
+
+  activeTransaction.rollbackOnly = true;
+}
+
+/**
+ * Check if the current transaction (or savepoint) on a database has been
+ * marked as rollback-only
+ */
+export function isRollbackOnly(name: DatabaseName = "default"): boolean {
+  return getActiveTransaction(name)?.rollbackOnly ?? false;
+}
+
+/**
+ * Run a function with the current transaction of a database suspended.
+ * Queries made through the transactional proxy inside the function go to the
+ * base database again; the outer transaction is resumed once the function's
+ * context is left.
+ */
+export function runWithSuspendedTransaction<T>(
+  databaseName: DatabaseName,
+  fn: () => T
+): T {
+  return runWithTransaction(databaseName, undefined, fn);
+}
+
 /**
  * Cache for bound methods to avoid recreating them on each access
  */
@@ -121,6 +449,11 @@ export function createTransactionalDatabaseProxy(
         return dbInfo.baseDatabase;
       }
 
+      // Fail fast instead of waiting for the server to reject the write
+      if (dbInfo.isReadOnly && WRITE_METHODS.has(prop)) {
+        throw DrizzleTransactionalError.readOnlyTransaction(name, String(prop));
+      }
+
       const value = target[prop];
 
       // Cache bound methods for better performance
@@ -186,38 +519,264 @@ export function createTransactionalDatabaseProxy(
 }
 
 /**
- * Run a function within a database transaction context
+ * Get the server process ID of the connection a transaction runs on, and the
+ * start time that tells this transaction apart from later ones on it
  */
-export async function runInDatabaseTransaction<T>(
+async function getBackendTransaction(
+  tx: DrizzleTransaction
+): Promise<{ pid: number; startedAt: string }> {
+  const result: any = await tx.execute(
+    sql`select pg_backend_pid() as pid, now()::text as started_at`
+  );
+  const rows = Array.isArray(result) ? result : result.rows;
+  return { pid: Number(rows[0].pid), startedAt: rows[0].started_at };
+}
+
+/**
+ * Cancel the statement a transaction runs, from a separate connection. Only
+ * hits the connection while it still runs that transaction, so a late cancel
+ * can't reach work of another caller that reuses the connection.
+ */
+function cancelTransactionStatement(
+  databaseName: DatabaseName,
+  pid: number,
+  startedAt: string
+): void {
+  getDrizzleDatabaseByName(databaseName)
+    .execute(
+      sql`select pg_cancel_backend(pid) from pg_stat_activity where pid = ${pid} and xact_start = ${startedAt}::timestamptz and state = 'active'`
+    )
+    .catch(() => undefined);
+}
+
+/**
+ * Race a transaction callback against its timeout. When the timeout expires
+ * the callback is abandoned right away, so the transaction is rolled back,
+ * and the statement it runs is cancelled in the background.
+ */
+async function runWithTimeout<T>(
+  databaseName: DatabaseName,
+  timeout: number,
+  tx: DrizzleTransaction,
+  callback: () => Promise<T>,
+  onExpired: (error: DrizzleTransactionalError) => void
+): Promise<T> {
+  const { pid, startedAt } = await getBackendTransaction(tx);
+  let timer: NodeJS.Timeout | undefined;
+
+  const expired = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = DrizzleTransactionalError.transactionTimeout(
+        databaseName,
+        timeout
+      );
+      reject(error);
+      onExpired(error);
+      // The rollback waits for the running statement
+      cancelTransactionStatement(databaseName, pid, startedAt);
+    }, timeout);
+  });
+
+  try {
+    return await Promise.race([callback(), expired]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Start a transaction (or savepoint) through the given function and run the
+ * callback in it under a fresh ID. The transaction counts as completed once
+ * the callback has finished.
+ */
+async function runTrackedTransaction<T>(
   databaseName: DatabaseName,
   isolationLevel: string | undefined,
-  callback: () => Promise<T>
+  callback: () => Promise<T>,
+  options: DatabaseTransactionOptions | undefined,
+  start: (runner: (tx: DrizzleTransaction) => Promise<T>) => Promise<T>
 ): Promise<T> {
-  const baseDatabase = getDrizzleDatabaseByName(databaseName);
   const transactionId = randomUUID();
+  const origin = options?.origin ?? {};
+  if (!options?.origin) {
+    Error.captureStackTrace(origin, runTrackedTransaction);
+  }
+  let tracked: TrackedTransaction | undefined;
+
+  // Settles the call once the timeout expires, without waiting for the
+  // rollback, which a busy connection or pool can hold up
+  let expire: (error: DrizzleTransactionalError) => void = () => undefined;
+  const expired = new Promise<never>((_, reject) => {
+    expire = reject;
+  });
 
-  const transactionRunner = async (tx: DrizzleTransaction) => {
-    // Store the transaction database
-    transactionDatabases.set(transactionId, tx);
+  try {
+    const transaction = start(async (tx) => {
+      tracked = {
+        transactionId,
+        name: options?.name === undefined ? undefined : String(options.name),
+        transaction: tx,
+        isolationLevel: (isolationLevel || undefined) as IsolationLevel,
+        readOnly: options?.readOnly ?? false,
+        rollbackOnly: false,
+        status: TransactionStatus.ACTIVE,
+        origin,
+      };
+      tracked.transaction = guardTransaction(databaseName, tracked, tx);
 
-    try {
-      // Run the callback in the transaction context
-      return await runWithContext(
-        { [CURRENT_DB_ID_KEY]: transactionId },
-        callback
-      );
-    } finally {
-      // Clean up the transaction database
-      transactionDatabases.delete(transactionId);
+      let succeeded = false;
+      try {
+        // Run the callback in the transaction context
+        const run = () => runWithTransaction(databaseName, tracked, callback);
+
+        const result =
+          options?.timeout !== undefined
+            ? await runWithTimeout(
+                databaseName,
+                options.timeout,
+                tx,
+                run,
+                expire
+              )
+            : await run();
+        succeeded = true;
+        return result;
+      } finally {
+        tracked.status = succeeded
+          ? TransactionStatus.COMMITTED
+          : TransactionStatus.ROLLED_BACK;
+      }
+    });
+
+    if (options?.timeout === undefined) {
+      return await transaction;
     }
+    // Settles in the background once the timeout won
+    transaction.catch(() => undefined);
+    return await Promise.race([transaction, expired]);
+  } catch (error) {
+    // Also covers a failing COMMIT
+    if (tracked) {
+      tracked.status = TransactionStatus.ROLLED_BACK;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Register a handler that runs at the start of every transaction, or only of
+ * the transactions on the given database. Returns a function that removes the
+ * handler again.
+ */
+export function onTransactionStart(
+  handler: TransactionStartHandler,
+  databaseName?: DatabaseName
+): () => void {
+  let handlers = globalStartHandlers;
+  if (databaseName !== undefined) {
+    handlers = databaseStartHandlers.get(databaseName) ?? new Set();
+    databaseStartHandlers.set(databaseName, handlers);
+  }
+
+  handlers.add(handler);
+  return () => {
+    handlers.delete(handler);
   };
+}
 
-  // Run the transaction with or without isolation level
-  if (isolationLevel) {
-    return await baseDatabase.transaction(transactionRunner, {
-      isolationLevel: isolationLevel as any,
-    });
-  } else {
-    return await baseDatabase.transaction(transactionRunner);
+/**
+ * Run the start handlers for the current transaction of a database, global
+ * handlers first. A failing handler rolls the transaction back.
+ */
+async function runTransactionStartHandlers(
+  databaseName: DatabaseName
+): Promise<void> {
+  const handlers = [
+    ...globalStartHandlers,
+    ...(databaseStartHandlers.get(databaseName) ?? []),
+  ];
+  if (handlers.length === 0) {
+    return;
   }
+
+  const { transaction } = getActiveTransaction(databaseName)!;
+  const context = getContext();
+  for (const handler of handlers) {
+    await handler(transaction, context, databaseName);
+  }
+}
+
+/**
+ * Run a function within a database transaction context
+ */
+export async function runInDatabaseTransaction<T>(
+  databaseName: DatabaseName,
+  isolationLevel: string | undefined,
+  callback: () => Promise<T>,
+  options?: DatabaseTransactionOptions
+): Promise<T> {
+  if (
+    options?.timeout !== undefined &&
+    (!Number.isFinite(options.timeout) || options.timeout <= 0)
+  ) {
+    throw DrizzleTransactionalError.invalidOption(
+      "timeout",
+      "a positive number of milliseconds"
+    );
+  }
+
+  const baseDatabase = getDrizzleDatabaseByName(databaseName);
+
+  return await runTrackedTransaction(
+    databaseName,
+    isolationLevel,
+    async () => {
+      await runTransactionStartHandlers(databaseName);
+      return callback();
+    },
+    options,
+    (transactionRunner) => {
+      // Run the transaction with or without transaction config
+      if (isolationLevel || options?.readOnly || options?.deferrable) {
+        return baseDatabase.transaction(transactionRunner, {
+          isolationLevel: (isolationLevel || undefined) as any,
+          accessMode: options?.readOnly ? "read only" : undefined,
+          deferrable: options?.deferrable || undefined,
+        });
+      }
+      return baseDatabase.transaction(transactionRunner);
+    }
+  );
+}
+
+/**
+ * Run a function within a savepoint of the current database transaction.
+ * Drizzle emits SAVEPOINT / RELEASE SAVEPOINT / ROLLBACK TO SAVEPOINT for
+ * transactions opened on an existing transaction, so a failing callback only
+ * rolls back its own work.
+ */
+export async function runInDatabaseSavepoint<T>(
+  databaseName: DatabaseName,
+  callback: () => Promise<T>,
+  options?: Pick<DatabaseTransactionOptions, "name" | "origin">
+): Promise<T> {
+  const { database, isTransacting, isReadOnly, isolationLevel } =
+    getCurrentDatabaseInfo(databaseName);
+
+  if (!isTransacting) {
+    throw DrizzleTransactionalError.noActiveTransaction(
+      databaseName,
+      "create a savepoint"
+    );
+  }
+
+  const transaction = database as unknown as DrizzleTransaction;
+  // A savepoint keeps the settings of the transaction it belongs to
+  return await runTrackedTransaction(
+    databaseName,
+    isolationLevel,
+    callback,
+    { name: options?.name, origin: options?.origin, readOnly: isReadOnly },
+    (transactionRunner) => transaction.transaction(transactionRunner)
+  );
 }
@@ -0,0 +1,21 @@
+/**
+ * Enumeration that represents what happens to a transaction hook registered
+ * while no transaction is running
+ */
+export enum HookOutsideTransactionPolicy {
+  /**
+   * Run the hook right away, as if an empty transaction had just committed.
+   * Rollback hooks are dropped because no rollback can happen.
+   */
+  RUN_IMMEDIATELY = "RUN_IMMEDIATELY",
+  /**
+   * Run the hook at the end of the current non-transactional scope (e.g. a
+   * SUPPORTS or NOT_SUPPORTED call); run it right away like RUN_IMMEDIATELY
+   * when there is no such scope.
+   */
+  DEFER = "DEFER",
+  /**
+   * Throw a DrizzleTransactionalError with the HOOK_OUTSIDE_TRANSACTION code.
+   */
+  THROW = "THROW",
+}
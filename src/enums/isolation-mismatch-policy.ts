@@ -0,0 +1,19 @@
+/**
+ * Enumeration that represents how a transactional call reacts when it joins an
+ * existing transaction whose isolation level or access mode differs from its own
+ */
+export enum IsolationMismatchPolicy {
+  /**
+   * Join the existing transaction silently. Access mode mismatches are
+   * still logged as with WARN.
+   */
+  IGNORE = "IGNORE",
+  /**
+   * Join the existing transaction and log a warning.
+   */
+  WARN = "WARN",
+  /**
+   * Throw a DrizzleTransactionalError with the ISOLATION_MISMATCH code.
+   */
+  THROW = "THROW",
+}
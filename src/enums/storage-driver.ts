@@ -6,4 +6,10 @@ export enum StorageDriver {
    * Uses AsyncLocalStorage (modern Node.js approach)
    */
   ASYNC_LOCAL_STORAGE = "ASYNC_LOCAL_STORAGE",
+
+  /**
+   * Keeps a single current context that is set by hand or for the duration
+   * of a call (runtimes without AsyncLocalStorage, tests)
+   */
+  MANUAL = "MANUAL",
 }
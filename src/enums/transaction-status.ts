@@ -0,0 +1,25 @@
+/**
+ * Enumeration that represents the state of a transaction started through a TransactionManager
+ */
+export enum TransactionStatus {
+  /**
+   * The transaction is open and accepts work.
+   */
+  ACTIVE = "ACTIVE",
+  /**
+   * commit() has been called and the transaction is committing.
+   */
+  COMMITTING = "COMMITTING",
+  /**
+   * rollback() has been called and the transaction is rolling back.
+   */
+  ROLLING_BACK = "ROLLING_BACK",
+  /**
+   * The transaction has been committed.
+   */
+  COMMITTED = "COMMITTED",
+  /**
+   * The transaction has been rolled back, explicitly or because of a failure.
+   */
+  ROLLED_BACK = "ROLLED_BACK",
+}
@@ -5,6 +5,7 @@ export class DrizzleTransactionalError extends Error {
   public readonly name = "DrizzleTransactionalError";
   public readonly code?: string;
   public readonly details?: Record<string, unknown>;
+  public readonly errors?: unknown[];
 
   constructor(
     message: string,
@@ -12,6 +13,7 @@ export class DrizzleTransactionalError extends Error {
       cause?: unknown;
       code?: string;
       details?: Record<string, unknown>;
+      errors?: unknown[];
     }
   ) {
     super(message);
@@ -20,6 +22,7 @@ export class DrizzleTransactionalError extends Error {
     }
     this.code = options?.code;
     this.details = options?.details;
+    this.errors = options?.errors;
 
     // Ensure the stack trace points to this constructor
     if (Error.captureStackTrace) {
@@ -68,6 +71,255 @@ export class DrizzleTransactionalError extends Error {
     });
   }
 
+  /**
+   * Create an error for an invalid option passed to a transactional API
+   */
+  static invalidOption(
+    option: string,
+    requirement: string
+  ): DrizzleTransactionalError {
+    return new DrizzleTransactionalError(`${option} must be ${requirement}`, {
+      code: "INVALID_OPTION",
+      details: { option },
+    });
+  }
+
+  /**
+   * Create an error for runtimes that provide no AsyncLocalStorage
+   */
+  static asyncLocalStorageUnavailable(): DrizzleTransactionalError {
+    return new DrizzleTransactionalError(
+      "AsyncLocalStorage is not available in this runtime. Select another context storage driver with the storageDriver option.",
+      { code: "ASYNC_LOCAL_STORAGE_UNAVAILABLE" }
+    );
+  }
+
+  /**
+   * Create an error for overlapping run() calls of the manual storage driver
+   */
+  static contextRunsOverlap(): DrizzleTransactionalError {
+    return new DrizzleTransactionalError(
+      "Overlapping ManualContextStorageDriver.run() calls: a run settled while one started after it was still pending. The manual driver holds a single context, so concurrent asynchronous flows see each other's values. Use the AsyncLocalStorage driver for concurrent work.",
+      { code: "CONTEXT_RUNS_OVERLAP" }
+    );
+  }
+
+  /**
+   * Create an error for transactions that exceeded their timeout
+   */
+  static transactionTimeout(
+    databaseName: string,
+    timeout: number,
+    cause?: unknown
+  ): DrizzleTransactionalError {
+    return new DrizzleTransactionalError(
+      `Transaction on database "${databaseName}" timed out after ${timeout}ms and was rolled back`,
+      { cause, code: "TRANSACTION_TIMEOUT", details: { databaseName, timeout } }
+    );
+  }
+
+  /**
+   * Create an error for writes attempted inside a read-only transaction
+   */
+  static readOnlyTransaction(
+    databaseName: string,
+    operation: string
+  ): DrizzleTransactionalError {
+    return new DrizzleTransactionalError(
+      `Cannot run "${operation}" inside a read-only transaction on database "${databaseName}"`,
+      { code: "READ_ONLY_TRANSACTION", details: { databaseName, operation } }
+    );
+  }
+
+  /**
+   * Create an error for calls joining a transaction with different settings
+   */
+  static isolationMismatch(
+    databaseName: string,
+    name: string | undefined,
+    requested: { isolationLevel?: string; readOnly?: boolean },
+    existing: { isolationLevel?: string; readOnly: boolean }
+  ): DrizzleTransactionalError {
+    const describe = (settings: {
+      isolationLevel?: string;
+      readOnly?: boolean;
+    }) => {
+      const parts = [settings.isolationLevel ?? "default isolation"];
+      if (settings.readOnly !== undefined) {
+        parts.push(settings.readOnly ? "read only" : "read write");
+      }
+      return parts.join(", ");
+    };
+
+    return new DrizzleTransactionalError(
+      `Transactional call "${name ?? "anonymous"}" requested (${describe(
+        requested
+      )}) but joined an existing (${describe(
+        existing
+      )}) transaction on database "${databaseName}"`,
+      {
+        code: "ISOLATION_MISMATCH",
+        details: { databaseName, name, requested, existing },
+      }
+    );
+  }
+
+  /**
+   * Create an error for operations that need a running transaction
+   */
+  static noActiveTransaction(
+    databaseName: string,
+    operation: string
+  ): DrizzleTransactionalError {
+    return new DrizzleTransactionalError(
+      `Cannot ${operation} outside of a transaction on database "${databaseName}"`,
+      { code: "NO_ACTIVE_TRANSACTION", details: { databaseName, operation } }
+    );
+  }
+
+  /**
+   * Create an error for transactions rolled back because they were marked rollback-only
+   */
+  static unexpectedRollback(databaseName: string): DrizzleTransactionalError {
+    return new DrizzleTransactionalError(
+      `Transaction on database "${databaseName}" was rolled back because it has been marked as rollback-only`,
+      { code: "UNEXPECTED_ROLLBACK", details: { databaseName } }
+    );
+  }
+
+  /**
+   * Create the error passed to rollback hooks of an explicitly rolled back transaction
+   */
+  static explicitRollback(databaseName: string): DrizzleTransactionalError {
+    return new DrizzleTransactionalError(
+      `Transaction on database "${databaseName}" was rolled back explicitly`,
+      { code: "EXPLICIT_ROLLBACK", details: { databaseName } }
+    );
+  }
+
+  /**
+   * Create an error for using a transaction that has already been committed or rolled back.
+   * Given the transaction's details, the message names it and where it was started.
+   */
+  static transactionAlreadyCompleted(
+    databaseName: string,
+    status: string,
+    transaction?: {
+      transactionId: string;
+      name: string | undefined;
+      startStack: string | undefined;
+    }
+  ): DrizzleTransactionalError {
+    const label = transaction
+      ? transaction.name === undefined
+        ? ` ${transaction.transactionId}`
+        : ` "${transaction.name}" (${transaction.transactionId})`
+      : "";
+    const origin = transaction?.startStack
+      ? `. It was started at:\n${transaction.startStack
+          .split("\n")
+          .slice(1)
+          .join("\n")}`
+      : "";
+
+    return new DrizzleTransactionalError(
+      `Transaction${label} on database "${databaseName}" has already completed (${status})${origin}`,
+      {
+        code: "TRANSACTION_ALREADY_COMPLETED",
+        details: { databaseName, status, ...transaction },
+      }
+    );
+  }
+
+  /**
+   * Create an error for a captured context used after its transaction completed
+   */
+  static contextSnapshotExpired(
+    databaseNames: string[]
+  ): DrizzleTransactionalError {
+    return new DrizzleTransactionalError(
+      `Captured context refers to a completed transaction on database(s) ${databaseNames
+        .map((name) => `"${name}"`)
+        .join(", ")}. Capture the context again inside a running transaction.`,
+      { code: "CONTEXT_SNAPSHOT_EXPIRED", details: { databaseNames } }
+    );
+  }
+
+  /**
+   * Create an error for hooks registered while no transaction is running
+   */
+  static hookOutsideTransaction(phase: string): DrizzleTransactionalError {
+    return new DrizzleTransactionalError(
+      `Cannot register a ${phase} hook outside of a transaction`,
+      { code: "HOOK_OUTSIDE_TRANSACTION", details: { phase } }
+    );
+  }
+
+  /**
+   * Create an error gathering the failures of transaction hooks, like an AggregateError
+   */
+  static hooksFailed(
+    phase: string,
+    errors: unknown[]
+  ): DrizzleTransactionalError {
+    return new DrizzleTransactionalError(
+      `${errors.length} transaction ${phase} hook(s) failed`,
+      { cause: errors[0], code: "HOOKS_FAILED", details: { phase }, errors }
+    );
+  }
+
+  /**
+   * Create an error for global transaction listeners that failed
+   */
+  static listenersFailed(
+    eventType: string,
+    errors: unknown[]
+  ): DrizzleTransactionalError {
+    return new DrizzleTransactionalError(
+      `${errors.length} transaction listener(s) failed on the "${eventType}" event`,
+      {
+        cause: errors[0],
+        code: "HOOKS_FAILED",
+        details: { phase: "listener", eventType },
+        errors,
+      }
+    );
+  }
+
+  /**
+   * Create an error for an after-commit task that failed on every attempt
+   */
+  static afterCommitTaskFailed(
+    queue: string,
+    attempts: number,
+    error: unknown
+  ): DrizzleTransactionalError {
+    return new DrizzleTransactionalError(
+      `After-commit task on queue "${queue}" failed after ${attempts} attempt(s)`,
+      {
+        cause: error,
+        code: "AFTER_COMMIT_TASK_FAILED",
+        details: { queue, attempts },
+      }
+    );
+  }
+
+  /**
+   * Create an error for a context value (or the whole context when no key is
+   * given) that doesn't match its schema
+   */
+  static contextValidation(
+    key: string | undefined,
+    issues: unknown[],
+    message: string
+  ): DrizzleTransactionalError {
+    const subject = key === undefined ? "Context" : `Context value "${key}"`;
+    return new DrizzleTransactionalError(
+      `${subject} does not match schema: ${message}`,
+      { code: "CONTEXT_VALIDATION", details: { key, issues } }
+    );
+  }
+
   /**
    * Create an error for context issues
    */
@@ -0,0 +1,176 @@
+import { createContextKey } from "../context/async-local-storage.js";
+import { DrizzleTransactionalError } from "../errors/transactional.js";
+import { reportHookError } from "../storage/index.js";
+import type { IsolationLevel } from "../enums/isolation-level.js";
+import type { Propagation } from "../enums/propagation.js";
+import type { DatabaseName } from "../types/index.js";
+
+const TRANSACTION_EVENTS_KEY = createContextKey<
+  Readonly<Record<DatabaseName, TransactionEvent>>
+>("@drizzle-transactional/transaction-events");
+
+/**
+ * Description of a transaction, passed to every hook callback
+ */
+export interface TransactionEvent {
+  /**
+   * ID of the transaction (or savepoint), undefined for hooks of a scope
+   * without a transaction
+   */
+  transactionId: string | undefined;
+
+  /**
+   * Method name from WrapInTransactionOptions.name
+   */
+  name: string | undefined;
+
+  databaseName: DatabaseName | undefined;
+
+  isolationLevel: IsolationLevel | undefined;
+
+  startedAt: Date;
+
+  /**
+   * Set once the transaction completed, so only for commit, rollback and
+   * completion hooks
+   */
+  endedAt: Date | undefined;
+
+  /**
+   * Attempt number when the transaction is retried, starting at 1
+   */
+  attempt: number;
+
+  /**
+   * Metadata from WrapInTransactionOptions.metadata
+   */
+  metadata: Record<string, unknown> | undefined;
+}
+
+/**
+ * Describe a scope that has no transaction (yet)
+ */
+export function createDetachedTransactionEvent(): TransactionEvent {
+  return {
+    transactionId: undefined,
+    name: undefined,
+    databaseName: undefined,
+    isolationLevel: undefined,
+    startedAt: new Date(),
+    endedAt: undefined,
+    attempt: 1,
+    metadata: undefined,
+  };
+}
+
+/**
+ * Remember the description of the transaction the current context runs in
+ */
+export function setCurrentTransactionEvent(
+  databaseName: DatabaseName,
+  event: TransactionEvent
+): void {
+  TRANSACTION_EVENTS_KEY.set({
+    ...TRANSACTION_EVENTS_KEY.get(),
+    [databaseName]: event,
+  });
+}
+
+/**
+ * Get the description of a transaction started in the current context or
+ * one of its parents, if it is still the current transaction of the database
+ */
+export function findTransactionEvent(
+  databaseName: DatabaseName,
+  transactionId: string | undefined
+): TransactionEvent | undefined {
+  const event = TRANSACTION_EVENTS_KEY.get()?.[databaseName];
+
+  return event && event.transactionId === transactionId ? event : undefined;
+}
+
+/**
+ * Lifecycle steps reported to global transaction listeners
+ */
+export type TransactionLifecycleEventType =
+  | "start"
+  | "commit"
+  | "rollback"
+  | "end"
+  | "suspend"
+  | "resume";
+
+/**
+ * Event describing a step in the lifecycle of a transaction started by
+ * wrapInTransaction (savepoints included)
+ */
+export interface TransactionLifecycleEvent extends TransactionEvent {
+  type: TransactionLifecycleEventType;
+
+  /**
+   * ID of the transaction (or savepoint); for suspend and resume the ID of
+   * the suspended transaction
+   */
+  transactionId: string;
+
+  databaseName: DatabaseName;
+
+  /**
+   * Propagation of the call that started (or suspended) the transaction
+   */
+  propagation: Propagation;
+
+  /**
+   * Milliseconds since the transaction started, or since it was suspended
+   * for resume events
+   */
+  duration: number;
+
+  /**
+   * Error that caused a rollback (rollback and end events)
+   */
+  error?: unknown;
+}
+
+export type TransactionEventListener = (
+  event: TransactionLifecycleEvent
+) => void;
+
+/**
+ * Global listeners, called for every transaction
+ */
+const listeners = new Set<TransactionEventListener>();
+
+/**
+ * Register a listener for the lifecycle events of every transaction.
+ * Returns a function that removes the listener again.
+ */
+export function onTransactionEvent(
+  listener: TransactionEventListener
+): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Notify the global listeners. Listeners are not awaited and their failures
+ * go to the onHookError option, so they can't affect the transaction.
+ */
+export function emitTransactionEvent(event: TransactionLifecycleEvent): void {
+  for (const listener of listeners) {
+    try {
+      const result: unknown = listener(event);
+      Promise.resolve(result).catch((error) => {
+        reportHookError(
+          DrizzleTransactionalError.listenersFailed(event.type, [error])
+        );
+      });
+    } catch (error) {
+      reportHookError(
+        DrizzleTransactionalError.listenersFailed(event.type, [error])
+      );
+    }
+  }
+}
@@ -1,23 +1,196 @@
 import { EventEmitter } from "events";
 import {
-  getContextValue,
-  setContextValue,
+  createContextKey,
   hasActiveContext,
 } from "../context/async-local-storage.js";
-import { getDrizzleTransactionalOptions } from "../storage/index.js";
+import {
+  getDrizzleTransactionalOptions,
+  reportHookError,
+} from "../storage/index.js";
 import { DrizzleTransactionalError } from "../errors/transactional.js";
+import { HookOutsideTransactionPolicy } from "../enums/hook-outside-transaction-policy.js";
+import {
+  createDetachedTransactionEvent,
+  type TransactionEvent,
+} from "../events/index.js";
+
+const HOOK_CONTEXT_KEY = createContextKey<TransactionHookScope>(
+  "@drizzle-transactional/hook"
+);
 
-const HOOK_CONTEXT_KEY = "@drizzle-transactional/hook";
+// Scope of the innermost call on each database, which calls joining that
+// database's transaction register their hooks on
+const DATABASE_HOOKS_CONTEXT_KEY = createContextKey<
+  Readonly<Record<string, TransactionHookScope | undefined>>
+>("@drizzle-transactional/database-hooks");
+
+/**
+ * Options for creating a hook scope
+ */
+export interface HookScopeOptions {
+  parent?: TransactionHookScope;
+  transactional?: boolean;
+
+  /**
+   * Database the scope belongs to, so calls joining its transaction from
+   * inside another database's transaction find it
+   */
+  databaseName?: string;
+}
+
+/**
+ * Callbacks bound to a transaction. Besides the completion phases they are
+ * told when a REQUIRES_NEW or NOT_SUPPORTED call suspends the transaction and
+ * when it is resumed.
+ */
+export interface TransactionSynchronization {
+  /**
+   * Called inside the transaction before it is suspended
+   */
+  suspend?(): void | Promise<void>;
+
+  /**
+   * Called once the transaction is the current one again
+   */
+  resume?(): void | Promise<void>;
+
+  beforeCommit?(event: TransactionEvent): void | Promise<void>;
+
+  afterCommit?(event: TransactionEvent): void | Promise<void>;
+
+  afterCompletion?(
+    error: Error | undefined,
+    event: TransactionEvent
+  ): void | Promise<void>;
+}
+
+/**
+ * Ordering and de-duplication of a registered hook
+ */
+interface HookRegistration {
+  key?: string;
+  priority: number;
+  onDuplicateKey?: "replace" | "keep";
+}
+
+/**
+ * Hook registry of one transactional scope. Scopes of savepoints point to the
+ * scope of the transaction they were opened on, forming a tree that follows
+ * the transaction structure.
+ */
+export class TransactionHookScope extends EventEmitter {
+  private readonly registrations = new WeakMap<Function, HookRegistration>();
+
+  /**
+   * Scope of the transaction a savepoint was opened on
+   */
+  public readonly parent?: TransactionHookScope;
+
+  /**
+   * False for scopes that run without a transaction (SUPPORTS, NOT_SUPPORTED
+   * and NEVER calls outside of a transaction)
+   */
+  public readonly transactional: boolean;
+
+  /**
+   * Description of the scope's transaction, passed to its hooks
+   */
+  public transactionEvent: TransactionEvent = createDetachedTransactionEvent();
+
+  /**
+   * Synchronizations told about suspension of the scope's transaction
+   */
+  public readonly synchronizations: TransactionSynchronization[] = [];
+
+  constructor(options?: HookScopeOptions) {
+    super();
+    this.parent = options?.parent;
+    this.transactional = options?.transactional ?? true;
+  }
+
+  /**
+   * Register a hook once. A hook with the key of an already registered hook
+   * of the same event replaces it, or is dropped with onDuplicateKey "keep".
+   */
+  addHook(
+    event: string,
+    listener: (...args: any[]) => unknown,
+    options?: TransactionHookOrderingOptions
+  ): void {
+    if (options?.key !== undefined) {
+      const existing = this.listeners(event).find(
+        (registered) => this.registrations.get(registered)?.key === options.key
+      );
+
+      if (existing) {
+        if (options.onDuplicateKey === "keep") {
+          return;
+        }
+        this.removeListener(event, existing as (...args: any[]) => void);
+      }
+    }
+
+    this.registrations.set(listener, {
+      key: options?.key,
+      priority: options?.priority ?? 0,
+      onDuplicateKey: options?.onDuplicateKey,
+    });
+    this.once(event, listener);
+  }
+
+  /**
+   * Get the hooks of an event, highest priority first and in registration
+   * order within the same priority
+   */
+  orderedListeners(event: string): Function[] {
+    return this.listeners(event).sort(
+      (a, b) => this.getPriority(b) - this.getPriority(a)
+    );
+  }
+
+  /**
+   * Hand every pending hook over to the parent scope, keeping their order and
+   * registration options, so keyed hooks are merged there by the same rules
+   */
+  promoteToParent(): void {
+    if (!this.parent) {
+      return;
+    }
+
+    for (const event of this.eventNames()) {
+      for (const listener of this.listeners(event)) {
+        this.parent.addHook(
+          String(event),
+          listener as (...args: any[]) => unknown,
+          this.registrations.get(listener)
+        );
+      }
+    }
+    this.removeAllListeners();
+    this.parent.synchronizations.push(...this.synchronizations.splice(0));
+  }
+
+  /**
+   * Record the end of the scope's transaction before its final hooks fire
+   */
+  markEnded(): void {
+    this.transactionEvent = { ...this.transactionEvent, endedAt: new Date() };
+  }
+
+  private getPriority(listener: Function): number {
+    return this.registrations.get(listener)?.priority ?? 0;
+  }
+}
 
 /**
  * Get the transactional context hook
  */
-export function getTransactionalContextHook(): EventEmitter {
+export function getTransactionalContextHook(): TransactionHookScope {
   if (!hasActiveContext()) {
     throw DrizzleTransactionalError.contextError("NO_CONTEXT");
   }
 
-  const emitter = getContextValue<EventEmitter>(HOOK_CONTEXT_KEY);
+  const emitter = HOOK_CONTEXT_KEY.get();
   if (!emitter) {
     throw DrizzleTransactionalError.contextError("NO_HOOK");
   }
@@ -26,64 +199,492 @@ export function getTransactionalContextHook(): EventEmitter {
 }
 
 /**
- * Create a new event emitter for the current context
+ * Create a new event emitter for the current context, optionally as a child
+ * of the scope of an enclosing transaction
  */
-export function createEventEmitterInContext(): EventEmitter {
+export function createEventEmitterInContext(
+  scopeOptions?: HookScopeOptions
+): TransactionHookScope {
   const options = getDrizzleTransactionalOptions();
-  const emitter = new EventEmitter();
+  const emitter = new TransactionHookScope(scopeOptions);
   emitter.setMaxListeners(options.maxHookHandlers);
-  setContextValue(HOOK_CONTEXT_KEY, emitter);
+  HOOK_CONTEXT_KEY.set(emitter);
+  if (scopeOptions?.databaseName !== undefined) {
+    DATABASE_HOOKS_CONTEXT_KEY.set({
+      ...DATABASE_HOOKS_CONTEXT_KEY.get(),
+      [scopeOptions.databaseName]: emitter,
+    });
+  }
   return emitter;
 }
 
+/**
+ * Get the hook scope of the innermost call on a database, if any
+ */
+export function findDatabaseHookScope(
+  databaseName: string
+): TransactionHookScope | undefined {
+  return hasActiveContext()
+    ? DATABASE_HOOKS_CONTEXT_KEY.get()?.[databaseName]
+    : undefined;
+}
+
+/**
+ * Run a function that joins the transaction of a database, with that
+ * database's hook scope as the current one. Hooks registered by a call
+ * joining "default" from inside an "analytics" transaction belong to the
+ * "default" transaction.
+ */
+export function runInDatabaseHookScope<T>(
+  databaseName: string,
+  fn: () => T
+): T {
+  const scope = findDatabaseHookScope(databaseName);
+  if (!scope || scope === HOOK_CONTEXT_KEY.get()) {
+    return fn();
+  }
+  return HOOK_CONTEXT_KEY.run(scope, fn);
+}
+
+/**
+ * Options controlling the order and de-duplication of transaction hooks
+ */
+export interface TransactionHookOrderingOptions {
+  /**
+   * Identifies the hook within its transaction. Registering another hook for
+   * the same event with the same key replaces or keeps the existing one.
+   */
+  key?: string;
+
+  /**
+   * Hooks with a higher priority run first; equal priorities run in
+   * registration order (default: 0)
+   */
+  priority?: number;
+
+  /**
+   * What happens when a hook with the same key is already registered:
+   * "replace" it with the new one or "keep" the existing one (default: "replace")
+   */
+  onDuplicateKey?: "replace" | "keep";
+}
+
+/**
+ * Options for registering a transaction hook
+ */
+export interface TransactionHookOptions extends TransactionHookOrderingOptions {
+  /**
+   * What happens when no transaction is running
+   * (defaults to the global hooksOutsideTransaction option)
+   */
+  outsideTransaction?: HookOutsideTransactionPolicy;
+
+  /**
+   * Start the hook without waiting for it. The transactional call resolves
+   * right away and a failure is only reported to the onHookError option
+   * (default: false).
+   */
+  fireAndForget?: boolean;
+}
+
+/**
+ * How a transaction ended, as reported by afterCommit()
+ */
+export interface TransactionOutcome {
+  committed: boolean;
+
+  /**
+   * Error that caused the rollback
+   */
+  error?: Error;
+}
+
+type TransactionHookEvent =
+  | "beforeCommit"
+  | "beforeCompletion"
+  | "commit"
+  | "rollback"
+  | "end";
+
+/**
+ * Run the hooks registered for an event one after another in priority order,
+ * awaiting each of them. The scope's transaction event is passed after the
+ * given arguments. Failures don't stop the remaining hooks and are returned
+ * instead.
+ */
+async function triggerHooks(
+  hook: TransactionHookScope,
+  event: TransactionHookEvent,
+  ...args: unknown[]
+): Promise<unknown[]> {
+  const listeners = hook.orderedListeners(event);
+  hook.removeAllListeners(event);
+
+  const errors: unknown[] = [];
+  for (const listener of listeners) {
+    try {
+      await listener(...args, hook.transactionEvent);
+    } catch (error) {
+      errors.push(error);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Run the before-commit hooks of the current context inside the still-open
+ * transaction. They run one by one, including hooks registered by earlier
+ * ones, and the first failure is re-thrown so the transaction rolls back.
+ */
+export async function triggerBeforeCommitHooks(): Promise<void> {
+  const hook = getTransactionalContextHook();
+
+  while (hook.listenerCount("beforeCommit") > 0) {
+    const listeners = hook.orderedListeners("beforeCommit");
+    hook.removeAllListeners("beforeCommit");
+
+    for (const listener of listeners) {
+      await listener(hook.transactionEvent);
+    }
+  }
+}
+
+/**
+ * Run the before-completion hooks of the current context inside the
+ * transaction, right before it commits (error undefined) or rolls back.
+ * Failures are reported to the onHookError option so they can't change the
+ * outcome.
+ */
+export async function triggerBeforeCompletionHooks(
+  error: unknown
+): Promise<void> {
+  const failures = await triggerHooks(
+    getTransactionalContextHook(),
+    "beforeCompletion",
+    error
+  );
+
+  if (failures.length > 0) {
+    reportHookError(
+      DrizzleTransactionalError.hooksFailed("beforeCompletion", failures)
+    );
+  }
+}
+
 /**
  * Run and trigger hooks for transaction lifecycle
- * Ensures all hooks execute immediately for reliable testing and proper lifecycle management
+ * Hooks are awaited before the returned promise settles. Hook failures are
+ * gathered into a HOOKS_FAILED error for the onHookError option: after a
+ * commit the result is still returned, since the data is committed and must
+ * not be written again, and after a rollback the original error is re-thrown.
+ * Hooks are discarded without firing when the callback fails with an error
+ * accepted by `discardOnError` (e.g. an attempt that is about to be retried).
  */
 export async function runAndTriggerHooks<T>(
-  hook: EventEmitter,
-  callback: () => Promise<T>
+  hook: TransactionHookScope,
+  callback: () => Promise<T>,
+  discardOnError?: (error: unknown) => boolean
 ): Promise<T> {
+  let result: T;
+
   try {
-    const result = await Promise.resolve(callback());
+    result = await Promise.resolve(callback());
+  } catch (error) {
+    if (discardOnError?.(error)) {
+      hook.removeAllListeners();
+      throw error;
+    }
 
-    // Trigger commit and end hooks immediately for reliable execution
-    hook.emit("commit");
-    hook.emit("end", undefined);
+    hook.markEnded();
+    const failures = [
+      ...(await triggerHooks(hook, "rollback", error)),
+      ...(await triggerHooks(hook, "end", error)),
+    ];
     hook.removeAllListeners();
 
-    return result;
+    if (failures.length > 0) {
+      reportHookError(
+        DrizzleTransactionalError.hooksFailed("rollback", failures)
+      );
+    }
+
+    throw error;
+  }
+
+  hook.markEnded();
+  const failures = [
+    ...(await triggerHooks(hook, "commit")),
+    ...(await triggerHooks(hook, "end", undefined)),
+  ];
+  hook.removeAllListeners();
+
+  if (failures.length > 0) {
+    reportHookError(DrizzleTransactionalError.hooksFailed("commit", failures));
+  }
+
+  return result;
+}
+
+/**
+ * Run a savepoint and settle the hooks of its scope. On release every hook is
+ * promoted to the parent scope and fires with the enclosing transaction; on
+ * rollback the before-completion, rollback and end hooks fire right away and
+ * pending commit hooks are discarded while the outer transaction continues.
+ */
+export async function runAndTriggerSavepointHooks<T>(
+  hook: TransactionHookScope,
+  callback: () => Promise<T>
+): Promise<T> {
+  let result: T;
+
+  try {
+    result = await callback();
   } catch (error) {
-    // Trigger rollback and end hooks immediately for reliable error handling
-    hook.emit("rollback", error);
-    hook.emit("end", error);
+    hook.removeAllListeners("beforeCommit");
+    hook.removeAllListeners("commit");
+    hook.markEnded();
+
+    const failures = [
+      ...(await triggerHooks(hook, "beforeCompletion", error)),
+      ...(await triggerHooks(hook, "rollback", error)),
+      ...(await triggerHooks(hook, "end", error)),
+    ];
     hook.removeAllListeners();
 
+    if (failures.length > 0) {
+      reportHookError(
+        DrizzleTransactionalError.hooksFailed("rollback", failures)
+      );
+    }
+
     throw error;
   }
+
+  hook.promoteToParent();
+  return result;
+}
+
+/**
+ * Run a function while the transaction with the given ID is suspended,
+ * calling suspend on the synchronizations of that transaction's innermost
+ * scope and its parents before and resume in reverse order afterwards.
+ * Synchronizations registered on another transaction are left alone.
+ */
+export async function runWithSuspendedSynchronizations<T>(
+  transactionId: string,
+  fn: () => Promise<T>
+): Promise<T> {
+  const synchronizations: TransactionSynchronization[] = [];
+  const current = findTransactionalContextHook();
+  const databaseScopes = hasActiveContext()
+    ? Object.values(DATABASE_HOOKS_CONTEXT_KEY.get() ?? {})
+    : [];
+  let scope = [current, ...databaseScopes].find(
+    (candidate) => candidate?.transactionEvent.transactionId === transactionId
+  );
+  for (; scope; scope = scope.parent) {
+    synchronizations.push(...scope.synchronizations);
+  }
+
+  const suspended: TransactionSynchronization[] = [];
+  try {
+    for (const synchronization of synchronizations) {
+      await synchronization.suspend?.();
+      suspended.push(synchronization);
+    }
+    return await fn();
+  } finally {
+    for (const synchronization of suspended.reverse()) {
+      await synchronization.resume?.();
+    }
+  }
+}
+
+/**
+ * Get the hook scope of the current context, if any
+ */
+function findTransactionalContextHook(): TransactionHookScope | undefined {
+  return hasActiveContext() ? HOOK_CONTEXT_KEY.get() : undefined;
+}
+
+/**
+ * Run a hook right away as if an empty transaction had just committed
+ */
+function runHookImmediately(
+  event: TransactionHookEvent,
+  callback: (...args: any[]) => unknown
+): void {
+  // No rollback can happen without a transaction
+  if (event === "rollback") {
+    return;
+  }
+
+  const transactionEvent: TransactionEvent = {
+    ...createDetachedTransactionEvent(),
+    endedAt: new Date(),
+  };
+  const result =
+    event === "commit"
+      ? callback(transactionEvent)
+      : callback(undefined, transactionEvent);
+  Promise.resolve(result).catch((error) => {
+    reportHookError(DrizzleTransactionalError.hooksFailed(event, [error]));
+  });
+}
+
+/**
+ * Register a hook on the current transactional context
+ */
+function registerHook(
+  event: TransactionHookEvent,
+  callback: (...args: any[]) => unknown,
+  options?: TransactionHookOptions
+): void {
+  const hook = findTransactionalContextHook();
+
+  if (!hook?.transactional) {
+    const policy =
+      options?.outsideTransaction ??
+      getDrizzleTransactionalOptions().hooksOutsideTransaction;
+
+    if (policy === HookOutsideTransactionPolicy.THROW) {
+      throw DrizzleTransactionalError.hookOutsideTransaction(event);
+    }
+    // DEFER needs a scope to defer to
+    if (policy === HookOutsideTransactionPolicy.RUN_IMMEDIATELY || !hook) {
+      runHookImmediately(event, callback);
+      return;
+    }
+  }
+
+  // Every registration gets its own listener so keys can't collide
+  const listener = options?.fireAndForget
+    ? (...args: unknown[]) => {
+        // Not awaited by triggerHooks, so failures are reported here
+        Promise.resolve()
+          .then(() => callback(...args))
+          .catch((error) => {
+            reportHookError(
+              DrizzleTransactionalError.hooksFailed(event, [error])
+            );
+          });
+      }
+    : (...args: unknown[]) => callback(...args);
+
+  getTransactionalContextHook().addHook(event, listener, options);
+}
+
+/**
+ * Register a callback to be executed inside the current transaction after the
+ * transactional function returned and before COMMIT. Throwing vetoes the commit.
+ */
+export function runBeforeTransactionCommit(
+  callback: (event: TransactionEvent) => void | Promise<void>,
+  options?: Omit<TransactionHookOptions, "fireAndForget">
+): void {
+  // Awaited inside the transaction, so fire-and-forget doesn't apply
+  registerHook("beforeCommit", callback, options);
+}
+
+/**
+ * Register a callback to be executed inside the current transaction right
+ * before it commits or rolls back
+ */
+export function runBeforeTransactionCompletion(
+  callback: (
+    error: Error | undefined,
+    event: TransactionEvent
+  ) => void | Promise<void>,
+  options?: Omit<TransactionHookOptions, "fireAndForget">
+): void {
+  registerHook("beforeCompletion", callback, options);
 }
 
 /**
  * Register a callback to be executed after the current transaction was successfully committed
  */
-export function runOnTransactionCommit(callback: () => void): void {
-  getTransactionalContextHook().once("commit", callback);
+export function runOnTransactionCommit(
+  callback: (event: TransactionEvent) => void | Promise<void>,
+  options?: TransactionHookOptions
+): void {
+  registerHook("commit", callback, options);
 }
 
 /**
  * Register a callback to be executed after the current transaction rolls back
  */
 export function runOnTransactionRollback(
-  callback: (error: Error) => void
+  callback: (error: Error, event: TransactionEvent) => void | Promise<void>,
+  options?: TransactionHookOptions
 ): void {
-  getTransactionalContextHook().once("rollback", callback);
+  registerHook("rollback", callback, options);
 }
 
 /**
  * Register a callback to be executed at the completion of the current transactional context
  */
 export function runOnTransactionComplete(
-  callback: (error: Error | undefined) => void
+  callback: (
+    error: Error | undefined,
+    event: TransactionEvent
+  ) => void | Promise<void>,
+  options?: TransactionHookOptions
+): void {
+  registerHook("end", callback, options);
+}
+
+/**
+ * Get a promise that resolves with the outcome of the current transaction
+ * once it has committed or rolled back. It never rejects, so a `.then()`
+ * chain needs no rejection handler.
+ */
+export function afterCommit(
+  options?: Pick<TransactionHookOptions, "outsideTransaction">
+): Promise<TransactionOutcome> {
+  return new Promise((resolve) => {
+    registerHook("commit", () => resolve({ committed: true }), options);
+    registerHook(
+      "rollback",
+      (error: Error) => resolve({ committed: false, error }),
+      options
+    );
+  });
+}
+
+/**
+ * Register a synchronization on the current transaction. Its completion
+ * callbacks are registered like the matching hooks, with the same options.
+ */
+export function registerTransactionSynchronization(
+  synchronization: TransactionSynchronization,
+  options?: Omit<TransactionHookOptions, "fireAndForget">
 ): void {
-  getTransactionalContextHook().once("end", callback);
+  if (synchronization.beforeCommit) {
+    registerHook(
+      "beforeCommit",
+      (event: TransactionEvent) => synchronization.beforeCommit!(event),
+      options
+    );
+  }
+  if (synchronization.afterCommit) {
+    registerHook(
+      "commit",
+      (event: TransactionEvent) => synchronization.afterCommit!(event),
+      options
+    );
+  }
+  if (synchronization.afterCompletion) {
+    registerHook(
+      "end",
+      (error: Error | undefined, event: TransactionEvent) =>
+        synchronization.afterCompletion!(error, event),
+      options
+    );
+  }
+
+  const hook = findTransactionalContextHook();
+  if (hook?.transactional) {
+    hook.synchronizations.push(synchronization);
+  }
 }
@@ -1,13 +1,23 @@
 import "reflect-metadata";
 export * from "./context/async-local-storage.js";
+export * from "./context/context-snapshot.js";
+export * from "./context/storage-drivers.js";
 export * from "./decorators/transactional.js";
+export * from "./enums/hook-outside-transaction-policy.js";
 export * from "./enums/isolation-level.js";
+export * from "./enums/isolation-mismatch-policy.js";
 export * from "./enums/propagation.js";
 export * from "./enums/storage-driver.js";
+export * from "./enums/transaction-status.js";
 export * from "./errors/transactional.js";
+export * from "./events/index.js";
 export * from "./hooks/index.js";
+export * from "./queue/index.js";
 export * from "./transactions/run-in-transaction.js";
 export * from "./transactions/wrap-in-transaction.js";
+export * from "./transactions/retry-policy.js";
+export * from "./transactions/rollback-rules.js";
+export * from "./transactions/transaction-manager.js";
 export * from "./storage/index.js";
 export * from "./drizzle/database-manager.js";
 export * from "./types/index.js";
@@ -0,0 +1,284 @@
+import {
+  getContext,
+  getContextStorageDriver,
+} from "../context/async-local-storage.js";
+import { DrizzleTransactionalError } from "../errors/transactional.js";
+import {
+  runOnTransactionCommit,
+  type TransactionHookOptions,
+} from "../hooks/index.js";
+import {
+  runWithRetry,
+  type TransactionRetryOptions,
+} from "../transactions/retry-policy.js";
+import type { TransactionEvent } from "../events/index.js";
+
+/**
+ * Work run in the background after a transaction committed
+ */
+export type AfterCommitTask = (event: TransactionEvent) => void | Promise<void>;
+
+/**
+ * A task that failed on every attempt
+ */
+export interface DeadLetterTask {
+  queue: string;
+  task: AfterCommitTask;
+
+  /**
+   * Event of the transaction that enqueued the task
+   */
+  event: TransactionEvent;
+
+  /**
+   * Error of the last attempt
+   */
+  error: unknown;
+
+  attempts: number;
+}
+
+/**
+ * Settings of an after-commit queue. The delay options work like the ones of
+ * transaction retries.
+ */
+export interface AfterCommitQueueOptions
+  extends Pick<
+    TransactionRetryOptions,
+    "initialDelay" | "maxDelay" | "backoffFactor" | "jitter"
+  > {
+  /**
+   * Maximum number of tasks of the queue running at the same time (default: 1)
+   */
+  concurrency?: number;
+
+  /**
+   * Retries of a failing task, unless set when it is enqueued (default: 0)
+   */
+  retries?: number;
+
+  /**
+   * Called with tasks that failed on every attempt. Without it they are logged.
+   */
+  onDeadLetter?: (deadLetter: DeadLetterTask) => void | Promise<void>;
+}
+
+/**
+ * Options for enqueueing an after-commit task
+ */
+export interface EnqueueAfterCommitOptions
+  extends Pick<TransactionHookOptions, "outsideTransaction"> {
+  /**
+   * Name of the queue (default: "default")
+   */
+  queue?: string;
+
+  /**
+   * Retries of the task, overriding the queue's setting
+   */
+  retries?: number;
+}
+
+interface QueuedTask {
+  task: AfterCommitTask;
+  event: TransactionEvent;
+  retries: number | undefined;
+
+  /**
+   * Context values of the committed call, which the task runs with. Its
+   * transactions and hook scopes are over by then and are left out.
+   */
+  context: Readonly<Record<string, unknown>>;
+}
+
+/**
+ * Runs the tasks of one queue in order of arrival, at most `concurrency` at a time
+ */
+class AfterCommitQueue {
+  private readonly pending: QueuedTask[] = [];
+  private running = 0;
+  private idleWaiters: Array<() => void> = [];
+
+  constructor(
+    private readonly name: string,
+    public options: AfterCommitQueueOptions
+  ) {}
+
+  get idle(): boolean {
+    return this.running === 0 && this.pending.length === 0;
+  }
+
+  push(queued: QueuedTask): void {
+    this.pending.push(queued);
+    this.runNext();
+  }
+
+  whenIdle(): Promise<void> {
+    if (this.idle) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.idleWaiters.push(resolve));
+  }
+
+  private runNext(): void {
+    while (
+      this.running < (this.options.concurrency ?? 1) &&
+      this.pending.length > 0
+    ) {
+      const queued = this.pending.shift()!;
+      this.running++;
+
+      this.run(queued).finally(() => {
+        this.running--;
+        this.runNext();
+
+        if (this.idle) {
+          const waiters = this.idleWaiters;
+          this.idleWaiters = [];
+          waiters.forEach((resolve) => resolve());
+        }
+      });
+    }
+  }
+
+  private async run({
+    task,
+    event,
+    retries,
+    context,
+  }: QueuedTask): Promise<void> {
+    const maxAttempts = (retries ?? this.options.retries ?? 0) + 1;
+    let attempts = 0;
+
+    try {
+      await runWithRetry(
+        {
+          initialDelay: this.options.initialDelay,
+          maxDelay: this.options.maxDelay,
+          backoffFactor: this.options.backoffFactor,
+          jitter: this.options.jitter,
+          maxAttempts,
+          isRetryable: () => true,
+        },
+        async (_, attempt) => {
+          attempts = attempt;
+          // Not the context of the task that finished before and started this one
+          await getContextStorageDriver().run(
+            new Map(Object.entries(context)),
+            () => task(event)
+          );
+        }
+      );
+    } catch (error) {
+      await this.deadLetter({
+        queue: this.name,
+        task,
+        event,
+        error,
+        attempts,
+      });
+    }
+  }
+
+  private async deadLetter(deadLetter: DeadLetterTask): Promise<void> {
+    const failure = DrizzleTransactionalError.afterCommitTaskFailed(
+      deadLetter.queue,
+      deadLetter.attempts,
+      deadLetter.error
+    );
+
+    if (!this.options.onDeadLetter) {
+      console.error(failure);
+      return;
+    }
+
+    try {
+      await this.options.onDeadLetter(deadLetter);
+    } catch (error) {
+      console.error(failure, error);
+    }
+  }
+}
+
+/**
+ * Queues by name, created on first use
+ */
+const queues = new Map<string, AfterCommitQueue>();
+
+function validateRetries(retries: number | undefined): void {
+  if (retries !== undefined && (!Number.isInteger(retries) || retries < 0)) {
+    throw DrizzleTransactionalError.invalidOption(
+      "retries",
+      "a non-negative integer"
+    );
+  }
+}
+
+function getQueue(name: string): AfterCommitQueue {
+  let queue = queues.get(name);
+  if (!queue) {
+    queue = new AfterCommitQueue(name, {});
+    queues.set(name, queue);
+  }
+  return queue;
+}
+
+/**
+ * Configure an after-commit queue. New settings apply to tasks started
+ * afterwards.
+ */
+export function configureAfterCommitQueue(
+  name: string,
+  options: AfterCommitQueueOptions
+): void {
+  if (
+    options.concurrency !== undefined &&
+    (!Number.isInteger(options.concurrency) || options.concurrency <= 0)
+  ) {
+    throw DrizzleTransactionalError.invalidOption(
+      "concurrency",
+      "a positive integer"
+    );
+  }
+  validateRetries(options.retries);
+
+  getQueue(name).options = options;
+}
+
+/**
+ * Run a task in the background once the current transaction has committed.
+ * The transactional call doesn't wait for it, and tasks of a transaction that
+ * rolls back never run.
+ */
+export function enqueueAfterCommit(
+  task: AfterCommitTask,
+  options?: EnqueueAfterCommitOptions
+): void {
+  validateRetries(options?.retries);
+  const queue = options?.queue ?? "default";
+
+  runOnTransactionCommit(
+    (event) => {
+      getQueue(queue).push({
+        task,
+        event,
+        retries: options?.retries,
+        context: getContext(),
+      });
+    },
+    { outsideTransaction: options?.outsideTransaction }
+  );
+}
+
+/**
+ * Wait until every queue is empty and no task is running, e.g. before
+ * shutting down. Tasks enqueued in the meantime are waited for as well.
+ */
+export async function drainAfterCommitQueues(): Promise<void> {
+  let busy = [...queues.values()].filter((queue) => !queue.idle);
+
+  while (busy.length > 0) {
+    await Promise.all(busy.map((queue) => queue.whenIdle()));
+    busy = [...queues.values()].filter((queue) => !queue.idle);
+  }
+}
@@ -1,4 +1,13 @@
 import { StorageDriver } from "../enums/storage-driver.js";
+import { ZodType, type ZodTypeAny } from "zod";
+import {
+  registerContextSchemas,
+  setContextStorageDriver,
+} from "../context/async-local-storage.js";
+import type { ContextStorageDriver } from "../context/storage-drivers.js";
+import { IsolationMismatchPolicy } from "../enums/isolation-mismatch-policy.js";
+import { HookOutsideTransactionPolicy } from "../enums/hook-outside-transaction-policy.js";
+import type { DrizzleTransactionalError } from "../errors/transactional.js";
 
 /**
  * Options for initializing the drizzle transactional context
@@ -12,9 +21,36 @@ export interface DrizzleTransactionalOptions {
 
   /**
    * Controls storage driver used for providing persistency during the async request timespan.
-   * Currently only AsyncLocalStorage is supported.
+   * Either one of the bundled drivers or a custom ContextStorageDriver.
    */
-  storageDriver?: StorageDriver;
+  storageDriver?: StorageDriver | ContextStorageDriver;
+
+  /**
+   * Controls what happens when a call joins an existing transaction whose
+   * isolation level or access mode differs from the requested one
+   * (default: IGNORE). Access mode mismatches are logged even when ignored.
+   * Can be overridden per call.
+   */
+  isolationMismatch?: IsolationMismatchPolicy;
+
+  /**
+   * Controls what happens to transaction hooks registered while no
+   * transaction is running. Can be overridden per call.
+   */
+  hooksOutsideTransaction?: HookOutsideTransactionPolicy;
+
+  /**
+   * Zod schemas of context values by key. Values written with
+   * setContextValue() or runWithContext() are validated against them.
+   */
+  contextSchema?: Record<string, ZodTypeAny>;
+
+  /**
+   * Receives the HOOKS_FAILED errors of hooks and transaction listeners,
+   * which never change the outcome of the transaction (default: logged with
+   * console.error)
+   */
+  onHookError?: (error: DrizzleTransactionalError) => void;
 }
 
 /**
@@ -31,6 +67,10 @@ interface DrizzleTransactionalData {
 const defaultOptions: Required<DrizzleTransactionalOptions> = {
   maxHookHandlers: 10,
   storageDriver: StorageDriver.ASYNC_LOCAL_STORAGE,
+  isolationMismatch: IsolationMismatchPolicy.IGNORE,
+  hooksOutsideTransaction: HookOutsideTransactionPolicy.DEFER,
+  contextSchema: {},
+  onHookError: (error) => console.error(error),
 };
 
 /**
@@ -58,12 +98,59 @@ export function initializeDrizzleTransactionalContext(
   }
 
   if (options?.storageDriver !== undefined) {
-    if (!Object.values(StorageDriver).includes(options.storageDriver)) {
+    const driver = options.storageDriver;
+    const isValid =
+      typeof driver === "object"
+        ? typeof driver.getStore === "function" &&
+          typeof driver.run === "function"
+        : Object.values(StorageDriver).includes(driver);
+    if (!isValid) {
       throw new Error(`Invalid storage driver: ${options.storageDriver}`);
     }
   }
 
+  if (options?.isolationMismatch !== undefined) {
+    if (
+      !Object.values(IsolationMismatchPolicy).includes(
+        options.isolationMismatch
+      )
+    ) {
+      throw new Error(
+        `Invalid isolation mismatch policy: ${options.isolationMismatch}`
+      );
+    }
+  }
+
+  if (options?.hooksOutsideTransaction !== undefined) {
+    if (
+      !Object.values(HookOutsideTransactionPolicy).includes(
+        options.hooksOutsideTransaction
+      )
+    ) {
+      throw new Error(
+        `Invalid hooks outside transaction policy: ${options.hooksOutsideTransaction}`
+      );
+    }
+  }
+
+  if (options?.contextSchema !== undefined) {
+    for (const [key, schema] of Object.entries(options.contextSchema)) {
+      if (!(schema instanceof ZodType)) {
+        throw new Error(`Context schema for "${key}" must be a Zod schema`);
+      }
+    }
+  }
+
+  if (
+    options?.onHookError !== undefined &&
+    typeof options.onHookError !== "function"
+  ) {
+    throw new Error("onHookError must be a function");
+  }
+
   data.options = { ...defaultOptions, ...options };
+  setContextStorageDriver(data.options.storageDriver);
+  registerContextSchemas(data.options.contextSchema);
   data.initialized = true;
 }
 
@@ -74,6 +161,18 @@ export function getDrizzleTransactionalOptions(): Required<DrizzleTransactionalO
   return data.options;
 }
 
+/**
+ * Hand a failure of hooks or transaction listeners to the onHookError option.
+ * A failing handler is logged, as it has no one to report to.
+ */
+export function reportHookError(error: DrizzleTransactionalError): void {
+  try {
+    data.options.onHookError(error);
+  } catch (handlerError) {
+    console.error(error, handlerError);
+  }
+}
+
 /**
  * Check if drizzle transactional context has been initialized
  */
@@ -0,0 +1,116 @@
+import { DrizzleTransactionalError } from "../errors/transactional.js";
+
+/**
+ * Retry policy for transactions aborted by the database
+ */
+export interface TransactionRetryOptions {
+  /**
+   * Maximum number of attempts, including the first one (default: 3)
+   */
+  maxAttempts?: number;
+
+  /**
+   * Delay in milliseconds before the first retry (default: 50)
+   */
+  initialDelay?: number;
+
+  /**
+   * Upper bound for the delay between attempts in milliseconds (default: 1000)
+   */
+  maxDelay?: number;
+
+  /**
+   * Multiplier applied to the delay after every attempt (default: 2)
+   */
+  backoffFactor?: number;
+
+  /**
+   * Randomize every delay between half and the full value so concurrent
+   * retries don't collide again (default: true)
+   */
+  jitter?: boolean;
+
+  /**
+   * Decide whether an error is worth another attempt
+   * (default: isRetryableTransactionError)
+   */
+  isRetryable?: (error: unknown, attempt: number) => boolean;
+}
+
+/**
+ * PostgreSQL SQLSTATE codes for serialization failures and deadlocks
+ */
+const RETRYABLE_SQLSTATES = new Set(["40001", "40P01"]);
+
+/**
+ * Check if an error (or one of its causes) is a serialization failure or a
+ * deadlock reported by PostgreSQL
+ */
+export function isRetryableTransactionError(error: unknown): boolean {
+  let current: any = error;
+
+  for (let depth = 0; current && depth < 10; depth++) {
+    if (RETRYABLE_SQLSTATES.has(current.code)) {
+      return true;
+    }
+    current = current.cause;
+  }
+
+  return false;
+}
+
+/**
+ * Run an attempt function until it succeeds, fails with a non-retryable error
+ * or runs out of attempts. Each attempt gets a predicate telling whether a
+ * given error will lead to another attempt.
+ */
+export async function runWithRetry<T>(
+  options: TransactionRetryOptions | undefined,
+  runAttempt: (
+    willRetry: (error: unknown) => boolean,
+    attempt: number
+  ) => Promise<T>
+): Promise<T> {
+  const maxAttempts = options?.maxAttempts ?? 3;
+  const initialDelay = options?.initialDelay ?? 50;
+  const maxDelay = options?.maxDelay ?? 1000;
+  const backoffFactor = options?.backoffFactor ?? 2;
+  const jitter = options?.jitter ?? true;
+  const isRetryable = options?.isRetryable ?? isRetryableTransactionError;
+
+  if (!Number.isInteger(maxAttempts) || maxAttempts <= 0) {
+    throw DrizzleTransactionalError.invalidOption(
+      "retry.maxAttempts",
+      "a positive integer"
+    );
+  }
+
+  for (let attempt = 1; ; attempt++) {
+    // Classify each error once, even when asked from several places
+    let decision: { error: unknown; retry: boolean } | undefined;
+    const willRetry = (error: unknown) => {
+      if (!decision || decision.error !== error) {
+        decision = {
+          error,
+          retry: attempt < maxAttempts && isRetryable(error, attempt),
+        };
+      }
+      return decision.retry;
+    };
+
+    try {
+      return await runAttempt(willRetry, attempt);
+    } catch (error) {
+      if (!willRetry(error)) {
+        throw error;
+      }
+    }
+
+    const delay = Math.min(
+      maxDelay,
+      initialDelay * Math.pow(backoffFactor, attempt - 1)
+    );
+    const actualDelay = jitter ? delay * (0.5 + Math.random() / 2) : delay;
+    await new Promise((resolve) => setTimeout(resolve, actualDelay));
+  }
+}
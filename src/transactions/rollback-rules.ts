@@ -0,0 +1,67 @@
+/**
+ * A class (matched with instanceof) or a predicate
+ */
+export type RollbackRule =
+  | (abstract new (...args: any[]) => unknown)
+  | ((error: unknown) => boolean);
+
+/**
+ * Rules deciding whether an error thrown by the transactional function rolls
+ * the transaction back or commits the work done so far
+ */
+export interface RollbackRuleOptions {
+  /**
+   * Errors that always roll back, even when they also match noRollbackFor
+   */
+  rollbackFor?: RollbackRule | RollbackRule[];
+
+  /**
+   * Errors that commit the transaction before being re-thrown
+   */
+  noRollbackFor?: RollbackRule | RollbackRule[];
+}
+
+/**
+ * Classes are told apart from predicates by their class syntax or, for
+ * compiled Error subclasses, by their prototype chain. Calling a class as a
+ * predicate would throw.
+ */
+function isClassRule(
+  rule: RollbackRule
+): rule is abstract new (...args: any[]) => unknown {
+  return (
+    rule === Error ||
+    rule.prototype instanceof Error ||
+    /^class\s/.test(Function.prototype.toString.call(rule))
+  );
+}
+
+function matchesRule(
+  error: unknown,
+  rules: RollbackRule | RollbackRule[] | undefined
+): boolean {
+  if (!rules) {
+    return false;
+  }
+
+  return (Array.isArray(rules) ? rules : [rules]).some((rule) =>
+    isClassRule(rule)
+      ? error instanceof rule
+      : (rule as (error: unknown) => boolean)(error)
+  );
+}
+
+/**
+ * Check if an error should roll the transaction back. Every error does by
+ * default; noRollbackFor opts errors out and rollbackFor takes precedence.
+ */
+export function shouldRollbackOn(
+  error: unknown,
+  options: RollbackRuleOptions | undefined
+): boolean {
+  if (matchesRule(error, options?.rollbackFor)) {
+    return true;
+  }
+
+  return !matchesRule(error, options?.noRollbackFor);
+}
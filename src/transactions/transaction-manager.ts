@@ -0,0 +1,231 @@
+import {
+  getContextStorageDriver,
+  runWithContext,
+} from "../context/async-local-storage.js";
+import {
+  createEventEmitterInContext,
+  runAndTriggerHooks,
+  triggerBeforeCommitHooks,
+  triggerBeforeCompletionHooks,
+} from "../hooks/index.js";
+import {
+  runInDatabaseTransaction,
+  getCurrentDatabaseInfo,
+  getCurrentTransactionId,
+  isRollbackOnly,
+} from "../drizzle/database-manager.js";
+import {
+  setCurrentTransactionEvent,
+  type TransactionEvent,
+} from "../events/index.js";
+import { DrizzleTransactionalError } from "../errors/transactional.js";
+import { isDrizzleTransactionalInitialized } from "../storage/index.js";
+import { TransactionStatus } from "../enums/transaction-status.js";
+import { runInTransaction } from "./run-in-transaction.js";
+import type { WrapInTransactionOptions } from "./wrap-in-transaction.js";
+import type { DatabaseName } from "../types/index.js";
+
+/**
+ * Options for a transaction started with TransactionManager.begin()
+ */
+export type BeginTransactionOptions = Pick<
+  WrapInTransactionOptions,
+  | "databaseName"
+  | "isolationLevel"
+  | "timeout"
+  | "readOnly"
+  | "deferrable"
+  | "name"
+  | "metadata"
+>;
+
+/**
+ * Handle to a transaction that stays open until it is explicitly committed or
+ * rolled back
+ */
+export interface TransactionHandle {
+  /**
+   * Database the transaction runs on
+   */
+  readonly databaseName: DatabaseName;
+
+  /**
+   * Current state of the transaction
+   */
+  readonly status: TransactionStatus;
+
+  /**
+   * Run a function inside the transaction context. Transactional proxies,
+   * hooks and @Transactional methods called from it use this transaction.
+   */
+  run<T>(fn: () => T): T;
+
+  /**
+   * Commit the transaction and wait for the commit hooks. Rejects with
+   * UNEXPECTED_ROLLBACK when the transaction was marked rollback-only.
+   */
+  commit(): Promise<void>;
+
+  /**
+   * Roll back the transaction and wait for the rollback hooks, which receive
+   * the given error (or an EXPLICIT_ROLLBACK error)
+   */
+  rollback(error?: Error): Promise<void>;
+}
+
+/**
+ * Starts transactions whose lifetime isn't bound to a single callback
+ */
+export class TransactionManager {
+  constructor(private readonly defaults: BeginTransactionOptions = {}) {}
+
+  /**
+   * Begin a new transaction. It always runs on its own connection, even when
+   * the caller is already inside a transaction.
+   */
+  begin(options?: BeginTransactionOptions): Promise<TransactionHandle> {
+    if (!isDrizzleTransactionalInitialized()) {
+      return Promise.reject(DrizzleTransactionalError.notInitialized());
+    }
+
+    const origin: { stack?: string } = {};
+    Error.captureStackTrace(origin, this.begin);
+
+    const {
+      databaseName = "default",
+      name,
+      metadata,
+      ...transactionOptions
+    } = {
+      ...this.defaults,
+      ...options,
+    };
+
+    return new Promise((resolve, reject) => {
+      let status = TransactionStatus.ACTIVE;
+      let transactionStore = new Map<string | symbol, unknown>();
+      let decide: (decision: { rollbackError?: Error }) => void = () =>
+        undefined;
+      const decided = new Promise<{ rollbackError?: Error }>((resolve) => {
+        decide = resolve;
+      });
+
+      const assertActive = () => {
+        if (status !== TransactionStatus.ACTIVE) {
+          throw DrizzleTransactionalError.transactionAlreadyCompleted(
+            databaseName,
+            status
+          );
+        }
+      };
+
+      const handle: TransactionHandle = {
+        databaseName,
+        get status() {
+          return status;
+        },
+        run: (fn) => {
+          assertActive();
+          // Layer the transaction's values, context keys included, over the
+          // caller's context
+          const driver = getContextStorageDriver();
+          return driver.run(
+            new Map([...(driver.getStore() ?? []), ...transactionStore]),
+            fn
+          );
+        },
+        commit: async () => {
+          assertActive();
+          // Decided right away, so a later rollback() can't claim it
+          status = TransactionStatus.COMMITTING;
+          decide({});
+          await completion;
+        },
+        rollback: async (error) => {
+          assertActive();
+          status = TransactionStatus.ROLLING_BACK;
+          const rollbackError =
+            error ?? DrizzleTransactionalError.explicitRollback(databaseName);
+          decide({ rollbackError });
+          await completion.catch((failure) => {
+            if (failure !== rollbackError) {
+              throw failure;
+            }
+          });
+        },
+      };
+
+      // Hold the transaction open until commit() or rollback() is called
+      const completion = runWithContext({}, () => {
+        const hook = createEventEmitterInContext({ databaseName });
+        return runAndTriggerHooks(hook, () =>
+          runInDatabaseTransaction(
+            databaseName,
+            transactionOptions.isolationLevel,
+            async () => {
+              const transactionEvent: TransactionEvent = {
+                transactionId: getCurrentTransactionId(databaseName),
+                name: name === undefined ? undefined : String(name),
+                databaseName,
+                isolationLevel:
+                  getCurrentDatabaseInfo(databaseName).isolationLevel,
+                startedAt: new Date(),
+                endedAt: undefined,
+                attempt: 1,
+                metadata,
+              };
+              hook.transactionEvent = transactionEvent;
+              setCurrentTransactionEvent(databaseName, transactionEvent);
+
+              transactionStore = getContextStorageDriver().getStore()!;
+              resolve(handle);
+
+              const { rollbackError } = await decided;
+              try {
+                if (rollbackError) {
+                  throw rollbackError;
+                }
+                await triggerBeforeCommitHooks();
+                if (isRollbackOnly(databaseName)) {
+                  throw DrizzleTransactionalError.unexpectedRollback(
+                    databaseName
+                  );
+                }
+              } catch (error) {
+                await triggerBeforeCompletionHooks(error);
+                throw error;
+              }
+              await triggerBeforeCompletionHooks(undefined);
+            },
+            { ...transactionOptions, name, origin }
+          )
+        );
+      });
+
+      completion.then(
+        () => {
+          status = TransactionStatus.COMMITTED;
+        },
+        (error) => {
+          status = TransactionStatus.ROLLED_BACK;
+          // Only reaches the caller when the transaction couldn't be started
+          reject(error);
+        }
+      );
+    });
+  }
+}
+
+/**
+ * Runs functions in transactions with a reusable set of options
+ */
+export class TransactionTemplate {
+  constructor(private readonly options: WrapInTransactionOptions = {}) {}
+
+  /**
+   * Run a function in a transaction using the template's options
+   */
+  execute<T>(fn: () => Promise<T>): Promise<T> {
+    return runInTransaction(fn, this.options);
+  }
+}
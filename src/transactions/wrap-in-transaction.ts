@@ -1,21 +1,51 @@
 import {
   runWithContext,
   hasActiveContext,
-  getContextValue,
 } from "../context/async-local-storage.js";
 import {
   createEventEmitterInContext,
+  findDatabaseHookScope,
+  getTransactionalContextHook,
   runAndTriggerHooks,
+  runAndTriggerSavepointHooks,
+  runInDatabaseHookScope,
+  runWithSuspendedSynchronizations,
+  triggerBeforeCommitHooks,
+  triggerBeforeCompletionHooks,
 } from "../hooks/index.js";
 import {
   runInDatabaseTransaction,
+  runInDatabaseSavepoint,
+  runWithSuspendedTransaction,
+  hasActiveTransaction,
+  findActiveTransaction,
   getCurrentDatabaseInfo,
+  getCurrentIsolationLevel,
+  getCurrentTransactionId,
+  isRollbackOnly,
 } from "../drizzle/database-manager.js";
+import {
+  emitTransactionEvent,
+  createDetachedTransactionEvent,
+  findTransactionEvent,
+  setCurrentTransactionEvent,
+  type TransactionEvent,
+  type TransactionLifecycleEventType,
+} from "../events/index.js";
 import { DrizzleTransactionalError } from "../errors/transactional.js";
-import { isDrizzleTransactionalInitialized } from "../storage/index.js";
+import {
+  isDrizzleTransactionalInitialized,
+  getDrizzleTransactionalOptions,
+} from "../storage/index.js";
 import { Propagation } from "../enums/propagation.js";
 import { IsolationLevel } from "../enums/isolation-level.js";
-import type { DatabaseName } from "../types/index.js";
+import { IsolationMismatchPolicy } from "../enums/isolation-mismatch-policy.js";
+import { runWithRetry, type TransactionRetryOptions } from "./retry-policy.js";
+import { shouldRollbackOn, type RollbackRule } from "./rollback-rules.js";
+import type {
+  DatabaseName,
+  TransactionalDatabaseInfo,
+} from "../types/index.js";
 
 export interface WrapInTransactionOptions {
   /**
@@ -33,13 +63,79 @@ export interface WrapInTransactionOptions {
    */
   isolationLevel?: IsolationLevel;
 
+  /**
+   * Transaction timeout in milliseconds. Only applies when this call starts a
+   * new transaction; when it expires the running statement is cancelled on the
+   * server, the transaction is rolled back and a TRANSACTION_TIMEOUT error is thrown.
+   */
+  timeout?: number;
+
+  /**
+   * Start the transaction in READ ONLY access mode. Writes reached through the
+   * transactional proxy fail with a READ_ONLY_TRANSACTION error.
+   */
+  readOnly?: boolean;
+
+  /**
+   * Start the transaction as DEFERRABLE (only effective together with
+   * readOnly and the SERIALIZABLE isolation level)
+   */
+  deferrable?: boolean;
+
+  /**
+   * What to do when this call joins an existing transaction whose isolation
+   * level or access mode differs from the requested one
+   * (defaults to the global isolationMismatch option)
+   */
+  isolationMismatch?: IsolationMismatchPolicy;
+
+  /**
+   * Throw an UNEXPECTED_ROLLBACK error when the transaction started by this
+   * call was rolled back because it had been marked rollback-only (default: true).
+   * When false, the rollback happens quietly and the result is returned.
+   */
+  failOnUnexpectedRollback?: boolean;
+
+  /**
+   * Errors that roll back the transaction started by this call even when they
+   * also match noRollbackFor (error classes or predicates)
+   */
+  rollbackFor?: RollbackRule | RollbackRule[];
+
+  /**
+   * Errors that commit the transaction started by this call before being
+   * re-thrown (error classes or predicates). Every other error rolls back.
+   */
+  noRollbackFor?: RollbackRule | RollbackRule[];
+
+  /**
+   * Retry serialization failures and deadlocks. Only applies when this call
+   * starts a new transaction: the whole function is run again in a fresh
+   * transaction and hooks registered by failed attempts are discarded.
+   */
+  retry?: TransactionRetryOptions;
+
   /**
    * Method name (for debugging)
    */
   name?: string | symbol;
+
+  /**
+   * Custom data passed to hooks and transaction listeners with the
+   * transaction event
+   */
+  metadata?: Record<string, unknown>;
 }
 
-const CURRENT_TRANSACTION_KEY = "@drizzle-transactional/current-transaction";
+/**
+ * Propagations that run inside the current transaction when one exists
+ */
+const JOINING_PROPAGATIONS = new Set<Propagation>([
+  Propagation.MANDATORY,
+  Propagation.NESTED,
+  Propagation.REQUIRED,
+  Propagation.SUPPORTS,
+]);
 
 /**
  * Propagation handlers for better maintainability and performance
@@ -59,12 +155,14 @@ const propagationHandlers = {
   },
 
   [Propagation.NESTED]: (
-    _: boolean,
+    currentTransaction: boolean,
+    _: () => any,
+    runWithNewTransaction: () => any,
     __: () => any,
-    runWithNewTransaction: () => any
+    runWithSavepoint: () => any
   ) => {
-    // Drizzle doesn't support nested transactions, so treat as REQUIRES_NEW
-    return runWithNewTransaction();
+    // Open a savepoint on the current transaction, behave like REQUIRED else
+    return currentTransaction ? runWithSavepoint() : runWithNewTransaction();
   },
 
   [Propagation.NEVER]: (
@@ -86,13 +184,13 @@ const propagationHandlers = {
     currentTransaction: boolean,
     runOriginal: () => any,
     __: () => any,
-    runWithNewHook: () => any
+    runWithNewHook: () => any,
+    ___: () => any,
+    suspend: (fn: () => any) => any
   ) => {
     if (currentTransaction) {
       // Suspend current transaction and run without it
-      return runWithContext({ [CURRENT_TRANSACTION_KEY]: false }, () =>
-        runWithNewHook()
-      );
+      return suspend(runWithNewHook);
     }
     return runOriginal();
   },
@@ -109,18 +207,14 @@ const propagationHandlers = {
     currentTransaction: boolean,
     _: () => any,
     runWithNewTransaction: () => any,
-    runWithNewHook: () => any
+    __: () => any,
+    ___: () => any,
+    suspend: (fn: () => any) => any
   ) => {
     if (currentTransaction) {
-      // Drizzle doesn't support nested transactions, so we'll run without transaction
-      // when already inside one, logging a warning
-      console.warn(
-        "REQUIRES_NEW propagation detected inside existing transaction. " +
-          "Drizzle doesn't support nested transactions, running without transaction."
-      );
-      return runWithContext({ [CURRENT_TRANSACTION_KEY]: false }, () =>
-        runWithNewHook()
-      );
+      // Suspend the current transaction and run an independent one on a
+      // separate connection; the outer context is resumed afterwards
+      return suspend(runWithNewTransaction);
     }
     return runWithNewTransaction();
   },
@@ -150,28 +244,286 @@ export function wrapInTransaction<
     const databaseName = options?.databaseName ?? "default";
     const propagation = options?.propagation ?? Propagation.REQUIRED;
     const isolationLevel = options?.isolationLevel;
+    const timeout = options?.timeout;
+    const readOnly = options?.readOnly;
+    const deferrable = options?.deferrable;
+    const methodName =
+      options?.name === undefined ? undefined : String(options.name);
+    // Where the transaction is started from, for errors about its misuse;
+    // the stack is only formatted when read
+    const origin: { stack?: string } = {};
+    Error.captureStackTrace(origin, wrapper);
 
     const runOriginal = () => fn.apply(this, args);
-    const runWithNewHook = () => {
-      const hook = createEventEmitterInContext();
-      return runAndTriggerHooks(hook, async () => runOriginal());
+    const runWithHooks = <T>(
+      callback: () => Promise<T>,
+      hookOptions?: {
+        transactional?: boolean;
+        discardOnError?: (error: unknown) => boolean;
+      }
+    ) => {
+      // Fork the context so the new hooks don't replace the outer ones
+      return runWithContext({}, () => {
+        const hook = createEventEmitterInContext({
+          transactional: hookOptions?.transactional,
+          databaseName,
+        });
+        return runAndTriggerHooks(hook, callback, hookOptions?.discardOnError);
+      });
+    };
+
+    // Run the function followed by the before-commit and before-completion
+    // hooks of its scope, before the transaction (if any) is closed. The
+    // before-completion hooks of an attempt that is about to be retried are
+    // dropped instead.
+    const runWithBeforeHooks = async <T>(
+      callback: () => Promise<T>,
+      verify?: (result: T) => Promise<T>,
+      discardOnError?: (error: unknown) => boolean
+    ) => {
+      let result: T;
+      try {
+        result = await callback();
+        await triggerBeforeCommitHooks();
+        if (verify) {
+          result = await verify(result);
+        }
+      } catch (error) {
+        if (discardOnError?.(error)) {
+          getTransactionalContextHook().removeAllListeners("beforeCompletion");
+        } else {
+          await triggerBeforeCompletionHooks(error);
+        }
+        throw error;
+      }
+
+      await triggerBeforeCompletionHooks(undefined);
+      return result;
+    };
+
+    const runWithNewHook = () =>
+      runWithHooks(
+        () => {
+          const hook = getTransactionalContextHook();
+          hook.transactionEvent = {
+            ...hook.transactionEvent,
+            name: methodName,
+            databaseName,
+            metadata: options?.metadata,
+          };
+          return runWithBeforeHooks(async () => runOriginal());
+        },
+        { transactional: false }
+      );
+
+    // Result kept aside when a rollback-only transaction is rolled back quietly
+    let rollbackOnlyOutcome: { error: unknown; result: unknown } | undefined;
+
+    // Error re-thrown after the transaction committed because of noRollbackFor
+    let committedError: { error: unknown } | undefined;
+
+    // Transaction (or savepoint) started by the current attempt, passed to
+    // hooks and reported to the global transaction listeners
+    let started: (TransactionEvent & { transactionId: string }) | undefined;
+    let attempt = 1;
+
+    const emitLifecycleEvent = (
+      type: TransactionLifecycleEventType,
+      error?: unknown
+    ) => {
+      if (!started) {
+        // The transaction failed before it started
+        return;
+      }
+
+      const endedAt = type === "start" ? undefined : new Date();
+      emitTransactionEvent({
+        ...started,
+        type,
+        databaseName,
+        propagation,
+        endedAt,
+        duration:
+          (endedAt ?? new Date()).getTime() - started.startedAt.getTime(),
+        ...(error !== undefined && { error }),
+      });
+    };
+
+    const markStarted = () => {
+      started = {
+        transactionId: getCurrentTransactionId(databaseName)!,
+        name: methodName,
+        databaseName,
+        isolationLevel: getCurrentDatabaseInfo(databaseName).isolationLevel,
+        startedAt: new Date(),
+        endedAt: undefined,
+        attempt,
+        metadata: options?.metadata,
+      };
+      getTransactionalContextHook().transactionEvent = started;
+      setCurrentTransactionEvent(databaseName, started);
+      emitLifecycleEvent("start");
+    };
+
+    const reportOutcome = <T>(run: () => Promise<T>) => {
+      started = undefined;
+
+      return run().then(
+        (result) => {
+          emitLifecycleEvent("commit");
+          emitLifecycleEvent("end");
+          return result;
+        },
+        (error) => {
+          emitLifecycleEvent("rollback", error);
+          emitLifecycleEvent("end", error);
+          throw error;
+        }
+      );
+    };
+
+    const runOriginalWithRollbackRules = async () => {
+      try {
+        return await runOriginal();
+      } catch (error) {
+        if (isRollbackOnly(databaseName) || shouldRollbackOn(error, options)) {
+          throw error;
+        }
+
+        // Let the transaction commit, the error is re-thrown afterwards
+        committedError = { error };
+        return undefined;
+      }
+    };
+
+    // Roll back instead of committing when marked rollback-only
+    const checkRollbackOnly = async <T>(result: T) => {
+      if (isRollbackOnly(databaseName)) {
+        const error =
+          DrizzleTransactionalError.unexpectedRollback(databaseName);
+        rollbackOnlyOutcome = { error, result };
+        throw error;
+      }
+
+      return result;
+    };
+
+    const runOriginalInOwnTransaction = (
+      willRetry?: (error: unknown) => boolean
+    ) => {
+      committedError = undefined;
+      markStarted();
+
+      return runWithBeforeHooks(
+        runOriginalWithRollbackRules,
+        checkRollbackOnly,
+        willRetry
+      );
+    };
+
+    // Before-commit hooks of a savepoint run with the enclosing transaction
+    const runOriginalInSavepoint = async () => {
+      committedError = undefined;
+      markStarted();
+      return checkRollbackOnly(await runOriginalWithRollbackRules());
+    };
+
+    const rethrowCommittedError = <T>(result: T) => {
+      if (committedError) {
+        throw committedError.error;
+      }
+      return result;
+    };
+
+    const handleUnexpectedRollback = (error: unknown) => {
+      if (
+        options?.failOnUnexpectedRollback === false &&
+        rollbackOnlyOutcome &&
+        rollbackOnlyOutcome.error === error
+      ) {
+        return rollbackOnlyOutcome.result;
+      }
+      throw error;
     };
 
     const runWithNewTransaction = () => {
-      const hook = createEventEmitterInContext();
+      const runTransaction = (
+        willRetry?: (error: unknown) => boolean,
+        attemptNumber = 1
+      ) => {
+        attempt = attemptNumber;
+        return reportOutcome(() =>
+          runWithHooks(
+            () =>
+              runInDatabaseTransaction(
+                databaseName,
+                isolationLevel,
+                () => runOriginalInOwnTransaction(willRetry),
+                {
+                  timeout,
+                  readOnly,
+                  deferrable,
+                  name: options?.name,
+                  origin,
+                }
+              ),
+            { discardOnError: willRetry }
+          )
+        );
+      };
 
-      return runAndTriggerHooks(hook, async () => {
-        return runInDatabaseTransaction(
-          databaseName,
-          isolationLevel,
-          async () => {
-            return runWithContext(
-              { [CURRENT_TRANSACTION_KEY]: true },
-              runOriginal
-            );
-          }
+      return (
+        options?.retry
+          ? runWithRetry(options.retry, runTransaction)
+          : runTransaction()
+      ).then(rethrowCommittedError, handleUnexpectedRollback);
+    };
+
+    const runWithSavepoint = () =>
+      reportOutcome(() =>
+        runWithContext({}, () => {
+          // The savepoint's hooks form a child scope of the current transaction
+          const hook = createEventEmitterInContext({
+            parent:
+              findDatabaseHookScope(databaseName) ??
+              getTransactionalContextHook(),
+            databaseName,
+          });
+          return runAndTriggerSavepointHooks(hook, () =>
+            runInDatabaseSavepoint(databaseName, runOriginalInSavepoint, {
+              name: options?.name,
+              origin,
+            })
+          );
+        })
+      ).then(rethrowCommittedError, handleUnexpectedRollback);
+
+    const suspend = async (fn: () => any) => {
+      const { transactionId, isolationLevel: suspendedIsolationLevel } =
+        findActiveTransaction(databaseName)!;
+      const suspended = {
+        // Transactions not started by wrapInTransaction have no description
+        ...createDetachedTransactionEvent(),
+        isolationLevel: suspendedIsolationLevel,
+        ...findTransactionEvent(databaseName, transactionId),
+        transactionId,
+        databaseName,
+        propagation,
+      };
+      const suspendedAt = Date.now();
+
+      emitTransactionEvent({ type: "suspend", ...suspended, duration: 0 });
+      try {
+        return await runWithSuspendedSynchronizations(transactionId, () =>
+          runWithSuspendedTransaction(databaseName, fn)
         );
-      });
+      } finally {
+        emitTransactionEvent({
+          type: "resume",
+          ...suspended,
+          duration: Date.now() - suspendedAt,
+        });
+      }
     };
 
     // If not in an async context, create one
@@ -184,24 +536,102 @@ export function wrapInTransaction<
     return executeWithPropagation();
 
     function executeWithPropagation() {
-      const currentTransaction = getContextValue<boolean>(
-        CURRENT_TRANSACTION_KEY
-      );
+      const currentTransaction = hasActiveTransaction(databaseName);
+      // A joining call's hooks belong to its own database's transaction
+      const runJoined = currentTransaction
+        ? () => runInDatabaseHookScope(databaseName, runOriginal)
+        : runOriginal;
+
+      const runHandler = () => {
+        const handler = propagationHandlers[propagation];
+        if (!handler) {
+          throw DrizzleTransactionalError.propagationError(
+            "UNKNOWN",
+            propagation
+          );
+        }
 
-      const handler = propagationHandlers[propagation];
-      if (!handler) {
-        throw DrizzleTransactionalError.propagationError(
-          "UNKNOWN",
-          propagation
+        return handler(
+          currentTransaction,
+          runJoined,
+          runWithNewTransaction,
+          runWithNewHook,
+          runWithSavepoint,
+          suspend
         );
+      };
+
+      // Joining calls stay synchronous unless the effective isolation level
+      // has to be read from the server
+      const validation =
+        currentTransaction && JOINING_PROPAGATIONS.has(propagation)
+          ? validateExistingTransaction()
+          : undefined;
+
+      if (validation) {
+        return validation.then(runHandler);
       }
 
-      return handler(
-        currentTransaction ?? false,
-        runOriginal,
-        runWithNewTransaction,
-        runWithNewHook
+      // A context that outlived its transaction, e.g. in a timer started
+      // inside it, runs as if there was none
+      return currentTransaction ||
+        getCurrentTransactionId(databaseName) === undefined
+        ? runHandler()
+        : runWithSuspendedTransaction(databaseName, runHandler);
+    }
+
+    function validateExistingTransaction(): Promise<void> | undefined {
+      const policy =
+        options?.isolationMismatch ??
+        getDrizzleTransactionalOptions().isolationMismatch;
+      const existing = getCurrentDatabaseInfo(databaseName);
+      if (
+        policy !== IsolationMismatchPolicy.IGNORE &&
+        isolationLevel !== undefined &&
+        existing.isolationLevel === undefined
+      ) {
+        return getCurrentIsolationLevel(databaseName).then(
+          (existingIsolationLevel) =>
+            checkExistingTransaction(policy, existing, existingIsolationLevel)
+        );
+      }
+
+      checkExistingTransaction(policy, existing, existing.isolationLevel);
+      return undefined;
+    }
+
+    function checkExistingTransaction(
+      policy: IsolationMismatchPolicy,
+      existing: TransactionalDatabaseInfo,
+      existingIsolationLevel: IsolationLevel | undefined
+    ): void {
+      // The policy only governs isolation levels: joining a transaction
+      // with a different access mode is always reported.
+      const isolationMismatch =
+        policy !== IsolationMismatchPolicy.IGNORE &&
+        isolationLevel !== undefined &&
+        isolationLevel !== existingIsolationLevel;
+      const accessModeMismatch =
+        readOnly !== undefined && readOnly !== existing.isReadOnly;
+
+      if (!isolationMismatch && !accessModeMismatch) {
+        return;
+      }
+
+      const error = DrizzleTransactionalError.isolationMismatch(
+        databaseName,
+        methodName,
+        { isolationLevel, readOnly },
+        {
+          isolationLevel: existingIsolationLevel,
+          readOnly: existing.isReadOnly,
+        }
       );
+
+      if (policy === IsolationMismatchPolicy.THROW) {
+        throw error;
+      }
+      console.warn(error.message);
     }
   }
 
@@ -1,5 +1,6 @@
 import type { ExtractTablesWithRelations } from "drizzle-orm";
 import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import type { IsolationLevel } from "../enums/isolation-level.js";
 
 export type DatabaseName = string | "default";
 
@@ -25,6 +26,8 @@ export type DrizzleTransaction = Parameters<
 export interface TransactionalDatabaseInfo {
   database: DrizzleDatabase;
   isTransacting: boolean;
+  isReadOnly: boolean;
+  isolationLevel: IsolationLevel | undefined;
   baseDatabase: DrizzleDatabase;
 }
 
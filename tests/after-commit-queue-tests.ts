@@ -0,0 +1,239 @@
+import {
+  getContextValue,
+  runWithContext,
+} from "../dist/esm/context/async-local-storage.js";
+import {
+  createTransactionalDatabaseProxy,
+  getCurrentTransactionId,
+} from "../dist/esm/drizzle/database-manager.js";
+import { HookOutsideTransactionPolicy } from "../dist/esm/enums/hook-outside-transaction-policy.js";
+import { runOnTransactionCommit } from "../dist/esm/hooks/index.js";
+import {
+  configureAfterCommitQueue,
+  drainAfterCommitQueues,
+  enqueueAfterCommit,
+  type DeadLetterTask,
+} from "../dist/esm/queue/index.js";
+import { runInTransaction } from "../dist/esm/transactions/run-in-transaction.js";
+import { BaseTestRunner } from "./base-test-runner.js";
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Tests for background work enqueued with enqueueAfterCommit()
+ */
+export class AfterCommitQueueTests extends BaseTestRunner {
+  /**
+   * Custom assertion helper that throws if condition is false
+   */
+  private assert(condition: boolean, message: string): void {
+    if (!condition) {
+      throw new Error(`Assertion failed: ${message}`);
+    }
+  }
+
+  public async runTests(): Promise<void> {
+    await this.runTest("Queued tasks respect the concurrency limit", () =>
+      this.testConcurrencyLimit()
+    );
+    await this.runTest("Failing tasks are retried and dead-lettered", () =>
+      this.testRetryAndDeadLetter()
+    );
+    await this.runTest("Tasks run in the context of their request", () =>
+      this.testTaskContextIsolation()
+    );
+    await this.runTest("Tasks run outside the enqueuing transactions", () =>
+      this.testTaskOutsideTransactions()
+    );
+    await this.runTest("Tasks can register their own hooks", () =>
+      this.testTaskHooks()
+    );
+  }
+
+  /**
+   * Tasks run after the commit without delaying the transactional call, at
+   * most `concurrency` at a time; tasks of a rolled back transaction never run
+   */
+  private async testConcurrencyLimit(): Promise<void> {
+    configureAfterCommitQueue("mail", { concurrency: 2 });
+    const sent: number[] = [];
+    let running = 0;
+    let maxRunning = 0;
+
+    const send = (id: number) => async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await delay(20);
+      sent.push(id);
+      running--;
+    };
+
+    await runInTransaction(async () => {
+      for (let id = 1; id <= 5; id++) {
+        enqueueAfterCommit(send(id), { queue: "mail" });
+      }
+    });
+    this.assert(sent.length === 0, "Call should not wait for queued tasks");
+
+    const failure = new Error("Order rejected");
+    try {
+      await runInTransaction(async () => {
+        enqueueAfterCommit(send(99), { queue: "mail" });
+        throw failure;
+      });
+    } catch (error) {
+      if (error !== failure) {
+        throw error;
+      }
+    }
+
+    await drainAfterCommitQueues();
+
+    this.assert(
+      sent.sort().join(",") === "1,2,3,4,5",
+      `Committed tasks should run once each: ${sent.join(",")}`
+    );
+    this.assert(maxRunning === 2, `Expected 2 concurrent, got ${maxRunning}`);
+  }
+
+  /**
+   * A task is retried with backoff and handed to the dead-letter callback
+   * once its attempts are used up
+   */
+  private async testRetryAndDeadLetter(): Promise<void> {
+    const deadLetters: DeadLetterTask[] = [];
+    configureAfterCommitQueue("webhooks", {
+      retries: 1,
+      initialDelay: 1,
+      jitter: false,
+      onDeadLetter: (deadLetter) => {
+        deadLetters.push(deadLetter);
+      },
+    });
+
+    let flakyCalls = 0;
+    let brokenCalls = 0;
+    const outage = new Error("Webhook endpoint down");
+
+    await runInTransaction(
+      async () => {
+        enqueueAfterCommit(
+          async () => {
+            flakyCalls++;
+            if (flakyCalls < 3) {
+              throw new Error("Temporary failure");
+            }
+          },
+          { queue: "webhooks", retries: 2 }
+        );
+        enqueueAfterCommit(
+          async () => {
+            brokenCalls++;
+            throw outage;
+          },
+          { queue: "webhooks" }
+        );
+      },
+      { name: "notifyPartners" }
+    );
+
+    await drainAfterCommitQueues();
+
+    this.assert(flakyCalls === 3, `Flaky task should succeed on attempt 3`);
+    this.assert(brokenCalls === 2, "Queue retries should apply by default");
+    this.assert(
+      deadLetters.length === 1 &&
+        deadLetters[0].error === outage &&
+        deadLetters[0].attempts === 2 &&
+        deadLetters[0].queue === "webhooks" &&
+        deadLetters[0].event.name === "notifyPartners",
+      "Exhausted task should be dead-lettered with its transaction event"
+    );
+  }
+
+  /**
+   * A task started after another one finished runs in the context of the
+   * request that enqueued it, not in the one of the previous task
+   */
+  private async testTaskContextIsolation(): Promise<void> {
+    configureAfterCommitQueue("audit", { concurrency: 1 });
+    const seen: string[] = [];
+
+    const request = (tenant: string) =>
+      runWithContext({ tenant }, () =>
+        runInTransaction(async () => {
+          enqueueAfterCommit(
+            async () => {
+              await delay(10);
+              seen.push(`${tenant}:${getContextValue("tenant")}`);
+            },
+            { queue: "audit" }
+          );
+        })
+      );
+
+    await Promise.all([request("acme"), request("globex")]);
+    await drainAfterCommitQueues();
+
+    this.assert(
+      seen.sort().join(",") === "acme:acme,globex:globex",
+      `Tasks should see their own context: ${seen.join(",")}`
+    );
+  }
+
+  /**
+   * A task enqueued by a transaction nested in another database's open
+   * transaction doesn't run inside the outer transaction
+   */
+  private async testTaskOutsideTransactions(): Promise<void> {
+    const db = createTransactionalDatabaseProxy("default") as {
+      isTransacting: boolean;
+    };
+    let transactionId: string | undefined = "not run";
+    let transacting: boolean | undefined;
+
+    await runInTransaction(async () => {
+      await runInTransaction(
+        async () => {
+          enqueueAfterCommit(async () => {
+            transactionId = getCurrentTransactionId("default");
+            transacting = db.isTransacting;
+          });
+        },
+        { databaseName: "analytics" }
+      );
+      await drainAfterCommitQueues();
+    });
+
+    this.assert(
+      transactionId === undefined,
+      `Task should see no default transaction, got: ${transactionId}`
+    );
+    this.assert(
+      transacting === false,
+      "Task should query outside the default transaction"
+    );
+  }
+
+  /**
+   * Hooks registered by a task don't end up on the finished transaction's
+   * scope, where they would never run
+   */
+  private async testTaskHooks(): Promise<void> {
+    let ran = false;
+
+    await runInTransaction(async () => {
+      enqueueAfterCommit(async () => {
+        runOnTransactionCommit(
+          () => {
+            ran = true;
+          },
+          { outsideTransaction: HookOutsideTransactionPolicy.RUN_IMMEDIATELY }
+        );
+      });
+    });
+    await drainAfterCommitQueues();
+
+    this.assert(ran, "Hook registered by the task should run");
+  }
+}
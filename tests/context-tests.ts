@@ -0,0 +1,280 @@
+import { EventEmitter } from "events";
+import { sql } from "drizzle-orm";
+import { NodePgDatabase } from "drizzle-orm/node-postgres";
+import { z } from "zod";
+import {
+  createContextKey,
+  getAsyncLocalStorage,
+  getContext,
+  getContextValue,
+  runWithContext,
+  setContextStorageDriver,
+  setContextValue,
+} from "../dist/esm/context/async-local-storage.js";
+import {
+  bindToContext,
+  captureContext,
+  runInCapturedContext,
+  type ContextSnapshot,
+} from "../dist/esm/context/context-snapshot.js";
+import { ManualContextStorageDriver } from "../dist/esm/context/storage-drivers.js";
+import { createTransactionalDatabaseProxy } from "../dist/esm/drizzle/database-manager.js";
+import { StorageDriver } from "../dist/esm/enums/storage-driver.js";
+import { DrizzleTransactionalError } from "../dist/esm/errors/transactional.js";
+import { runOnTransactionCommit } from "../dist/esm/hooks/index.js";
+import { initializeDrizzleTransactionalContext } from "../dist/esm/storage/index.js";
+import { runInTransaction } from "../dist/esm/transactions/run-in-transaction.js";
+import { BaseTestRunner } from "./base-test-runner.js";
+
+/**
+ * Tests for context values and context keys
+ */
+export class ContextTests extends BaseTestRunner {
+  /**
+   * Get the global database instance
+   */
+  private getDatabase() {
+    return createTransactionalDatabaseProxy(
+      "default"
+    ) as NodePgDatabase<any> & { isTransacting: boolean };
+  }
+
+  /**
+   * Custom assertion helper that throws if condition is false
+   */
+  private assert(condition: boolean, message: string): void {
+    if (!condition) {
+      throw new Error(`Assertion failed: ${message}`);
+    }
+  }
+
+  public async runTests(): Promise<void> {
+    await this.runTest("Context keys are typed and validated", () =>
+      this.testContextKeys()
+    );
+    await this.runTest("Internal keys can't be clobbered", () =>
+      this.testInternalKeysHidden()
+    );
+    await this.runTest("Bound callbacks keep the transaction", () =>
+      this.testBindToContext()
+    );
+    await this.runTest("Manual storage driver keeps the context", () =>
+      this.testManualStorageDriver()
+    );
+    await this.runTest("Registered schemas validate context writes", () =>
+      this.testContextSchemaValidation()
+    );
+  }
+
+  /**
+   * A key returns its default until set, run() only affects the callback and
+   * writes are checked against the schema
+   */
+  private async testContextKeys(): Promise<void> {
+    const tenantKey = createContextKey("tenant", {
+      default: "public",
+      schema: z.string().min(1),
+    });
+    const requestIdKey = createContextKey<number>("requestId");
+
+    this.assert(tenantKey.get() === "public", "Default outside a context");
+
+    await tenantKey.run("acme", async () => {
+      this.assert(tenantKey.get() === "acme", "run() should set the value");
+      this.assert(requestIdKey.get() === undefined, "Unset key is undefined");
+
+      await requestIdKey.run(1, async () => {
+        requestIdKey.set(2);
+        this.assert(requestIdKey.get() === 2, "set() should replace it");
+      });
+      this.assert(requestIdKey.get() === undefined, "run() should fork");
+
+      try {
+        tenantKey.set("");
+        throw new Error("Invalid value should be rejected");
+      } catch (error) {
+        this.assert(
+          error instanceof DrizzleTransactionalError &&
+            error.code === "CONTEXT_VALIDATION" &&
+            error.message.includes("tenant"),
+          `Expected CONTEXT_VALIDATION, got: ${error}`
+        );
+      }
+      this.assert(tenantKey.get() === "acme", "Rejected value isn't stored");
+    });
+  }
+
+  /**
+   * Library state lives under private symbols, so string keys with the same
+   * names neither show it nor replace it
+   */
+  private async testInternalKeysHidden(): Promise<void> {
+    let commitHookFired = false;
+
+    await runWithContext({ userId: 7 }, () =>
+      runInTransaction(async () => {
+        const keys = Object.keys(getContext());
+        this.assert(
+          keys.join(",") === "userId",
+          `Only user values should be visible: ${keys.join(",")}`
+        );
+
+        setContextValue("@drizzle-transactional/hook", "clobbered");
+        setContextValue("@drizzle-transactional/current-db-ids", {});
+
+        runOnTransactionCommit(() => {
+          commitHookFired = true;
+        });
+      })
+    );
+
+    this.assert(commitHookFired, "Hooks should survive a string key clash");
+  }
+
+  /**
+   * Callbacks run by an emitter outside the context see the transaction when
+   * bound to it; a snapshot of a completed transaction refuses to run
+   */
+  private async testBindToContext(): Promise<void> {
+    const db = this.getDatabase();
+    const emitter = new EventEmitter();
+    const seen: boolean[] = [];
+    let snapshot: ContextSnapshot | undefined;
+
+    await runInTransaction(async () => {
+      snapshot = captureContext();
+      emitter.on("unbound", () => seen.push(db.isTransacting));
+      emitter.on(
+        "bound",
+        bindToContext(() => seen.push(db.isTransacting))
+      );
+
+      // Emitted by code running outside of any context, like a pool
+      getAsyncLocalStorage().exit(() => {
+        emitter.emit("unbound");
+        emitter.emit("bound");
+      });
+    });
+
+    this.assert(
+      seen.join(",") === "false,true",
+      `Only the bound listener should see the transaction: ${seen.join(",")}`
+    );
+
+    try {
+      runInCapturedContext(snapshot!, () => db.isTransacting);
+      throw new Error("Expired snapshot should throw");
+    } catch (error) {
+      this.assert(
+        error instanceof DrizzleTransactionalError &&
+          error.code === "CONTEXT_SNAPSHOT_EXPIRED",
+        `Expected CONTEXT_SNAPSHOT_EXPIRED, got: ${error}`
+      );
+    }
+  }
+
+  /**
+   * Transactions work through the manual driver, its store can be handed
+   * over by hand and overlapping runs are reported
+   */
+  private async testManualStorageDriver(): Promise<void> {
+    const driver = new ManualContextStorageDriver();
+    const requestIdKey = createContextKey<string>("requestId");
+    const db = this.getDatabase();
+    let commitHookFired = false;
+
+    setContextStorageDriver(driver);
+    try {
+      const transacting = await runInTransaction(async () => {
+        runOnTransactionCommit(() => {
+          commitHookFired = true;
+        });
+        await db.execute(sql`select 1`);
+        return db.isTransacting;
+      });
+
+      this.assert(transacting, "Proxy should use the transaction");
+      this.assert(commitHookFired, "Commit hook should fire");
+      this.assert(!driver.getStore(), "Store should be reset afterwards");
+
+      const store = requestIdKey.run("r-1", () => driver.getStore());
+      this.assert(requestIdKey.get() === undefined, "run() should restore");
+      driver.enterWith(store);
+      this.assert(requestIdKey.get() === "r-1", "Store should be enterable");
+      driver.enterWith(undefined);
+
+      // Two flows can't share the single store
+      const wait = (ms: number) =>
+        new Promise((resolve) => setTimeout(resolve, ms));
+      const first = requestIdKey.run("r-2", () => wait(10));
+      const second = requestIdKey.run("r-3", () => wait(30));
+      try {
+        await first;
+        throw new Error("Overlapping runs should be rejected");
+      } catch (error) {
+        this.assert(
+          error instanceof DrizzleTransactionalError &&
+            error.code === "CONTEXT_RUNS_OVERLAP",
+          `Expected CONTEXT_RUNS_OVERLAP, got: ${error}`
+        );
+      }
+      await second;
+      this.assert(!driver.getStore(), "Store should be reset after overlap");
+    } finally {
+      setContextStorageDriver(StorageDriver.ASYNC_LOCAL_STORAGE);
+    }
+  }
+
+  /**
+   * Values of keys with a schema registered at initialization are validated
+   * (and parsed) when written; other keys stay untouched
+   */
+  private async testContextSchemaValidation(): Promise<void> {
+    const tenantId = "5f0c7a4e-2b1d-4c3e-9f8a-1b2c3d4e5f60";
+    const expectValidationError = (fn: () => unknown, message: string) => {
+      try {
+        fn();
+        throw new Error(message);
+      } catch (error) {
+        this.assert(
+          error instanceof DrizzleTransactionalError &&
+            error.code === "CONTEXT_VALIDATION" &&
+            error.details?.key === "tenantId",
+          `Expected CONTEXT_VALIDATION, got: ${error}`
+        );
+      }
+    };
+
+    initializeDrizzleTransactionalContext({
+      contextSchema: {
+        tenantId: z.string().uuid(),
+        attempt: z.coerce.number().int(),
+      },
+    });
+    try {
+      let ran = false;
+      expectValidationError(
+        () => runWithContext({ tenantId: "acme" }, () => (ran = true)),
+        "runWithContext should reject an invalid value"
+      );
+      this.assert(!ran, "Function should not run with an invalid context");
+
+      runWithContext({ tenantId, attempt: "2", free: 1 }, () => {
+        this.assert(getContextValue("tenantId") === tenantId, "Valid value");
+        this.assert(getContextValue("attempt") === 2, "Value is parsed");
+
+        expectValidationError(
+          () => setContextValue("tenantId", "not-a-uuid"),
+          "setContextValue should reject an invalid value"
+        );
+        this.assert(
+          getContextValue("tenantId") === tenantId,
+          "Rejected value isn't stored"
+        );
+        setContextValue("free", { any: "value" });
+      });
+    } finally {
+      initializeDrizzleTransactionalContext();
+    }
+  }
+}
@@ -0,0 +1,426 @@
+import { eq } from "drizzle-orm";
+import { NodePgDatabase } from "drizzle-orm/node-postgres";
+import { createTransactionalDatabaseProxy } from "../dist/esm/drizzle/database-manager.js";
+import { Propagation } from "../dist/esm/enums/propagation.js";
+import {
+  registerTransactionSynchronization,
+  runOnTransactionCommit,
+  runOnTransactionRollback,
+} from "../dist/esm/hooks/index.js";
+import { runInTransaction } from "../dist/esm/transactions/run-in-transaction.js";
+import { BaseTestRunner } from "./base-test-runner.js";
+import { posts, users } from "./database-schema-postgres.js";
+
+/**
+ * Propagation behavior tests that verify what actually reaches the database
+ */
+export class PropagationTests extends BaseTestRunner {
+  /**
+   * Get the global database instance
+   */
+  private getDatabase(name = "default") {
+    return createTransactionalDatabaseProxy(name) as NodePgDatabase<any> & {
+      isTransacting: boolean;
+      baseDatabase: NodePgDatabase<any>;
+    };
+  }
+
+  /**
+   * Custom assertion helper that throws if condition is false
+   */
+  private assert(condition: boolean, message: string): void {
+    if (!condition) {
+      throw new Error(`Assertion failed: ${message}`);
+    }
+  }
+
+  public async runTests(): Promise<void> {
+    await this.runTest("NESTED rolls back only its savepoint", () =>
+      this.testNestedSavepointRollback()
+    );
+    await this.runTest(
+      "NESTED without outer transaction acts as REQUIRED",
+      () => this.testNestedWithoutOuterTransaction()
+    );
+    await this.runTest("REQUIRES_NEW commits independently", () =>
+      this.testRequiresNewCommitsIndependently()
+    );
+    await this.runTest("Transactions on two databases are independent", () =>
+      this.testPerDatabaseTransactions()
+    );
+    await this.runTest("Joining calls register hooks on their database", () =>
+      this.testJoinFromOtherDatabase()
+    );
+    await this.runTest("Synchronizations follow suspend and resume", () =>
+      this.testSynchronizationSuspendResume()
+    );
+  }
+
+  /**
+   * A failing NESTED call must roll back only its own work, letting the
+   * outer transaction catch the error and commit the rest
+   */
+  private async testNestedSavepointRollback(): Promise<void> {
+    const db = this.getDatabase();
+
+    const user = await runInTransaction(async () => {
+      const [user] = await db
+        .insert(users)
+        .values({ name: "Savepoint User", email: "savepoint@test.com" })
+        .returning();
+
+      try {
+        await runInTransaction(
+          async () => {
+            await db.insert(posts).values({
+              authorId: user.id,
+              title: "Savepoint Post",
+              content: "Should be rolled back",
+            });
+            throw new Error("Nested failure");
+          },
+          { propagation: Propagation.NESTED }
+        );
+      } catch (error) {
+        this.assert(
+          error instanceof Error && error.message === "Nested failure",
+          "Nested error should reach the outer transaction"
+        );
+      }
+
+      // The outer transaction is still usable after the savepoint rollback
+      await db
+        .update(users)
+        .set({ name: "Savepoint User Updated" })
+        .where(eq(users.id, user.id));
+
+      return user;
+    });
+
+    const [storedUser] = await db
+      .select()
+      .from(users)
+      .where(eq(users.id, user.id));
+    this.assert(
+      storedUser?.name === "Savepoint User Updated",
+      "Outer transaction work should be committed"
+    );
+
+    const storedPosts = await db
+      .select()
+      .from(posts)
+      .where(eq(posts.title, "Savepoint Post"));
+    this.assert(
+      storedPosts.length === 0,
+      "Savepoint work should be rolled back"
+    );
+  }
+
+  /**
+   * Without an outer transaction NESTED starts a regular transaction
+   */
+  private async testNestedWithoutOuterTransaction(): Promise<void> {
+    const db = this.getDatabase();
+
+    const isTransacting = await runInTransaction(
+      async () => {
+        await db
+          .insert(users)
+          .values({ name: "Nested Root User", email: "nested-root@test.com" });
+        return db.isTransacting;
+      },
+      { propagation: Propagation.NESTED }
+    );
+
+    this.assert(isTransacting, "NESTED should start a new transaction");
+
+    const stored = await db
+      .select()
+      .from(users)
+      .where(eq(users.email, "nested-root@test.com"));
+    this.assert(stored.length === 1, "NESTED transaction should be committed");
+  }
+
+  /**
+   * REQUIRES_NEW work must survive an outer rollback, and the outer
+   * transaction must be resumed once the inner one has finished
+   */
+  private async testRequiresNewCommitsIndependently(): Promise<void> {
+    const db = this.getDatabase();
+    let innerCommitted = false;
+    let outerRollbackHookFired = false;
+
+    try {
+      await runInTransaction(async () => {
+        runOnTransactionRollback(() => {
+          outerRollbackHookFired = true;
+        });
+
+        const [outerUser] = await db
+          .insert(users)
+          .values({ name: "Outer User", email: "requires-new-outer@test.com" })
+          .returning();
+
+        await runInTransaction(
+          async () => {
+            runOnTransactionCommit(() => {
+              innerCommitted = true;
+            });
+
+            this.assert(
+              db.isTransacting,
+              "REQUIRES_NEW should run in a transaction"
+            );
+
+            // The outer row is uncommitted, so a separate connection can't see it
+            const visible = await db
+              .select()
+              .from(users)
+              .where(eq(users.id, outerUser.id));
+            this.assert(
+              visible.length === 0,
+              "REQUIRES_NEW should not see outer uncommitted data"
+            );
+
+            await db.insert(users).values({
+              name: "Audit User",
+              email: "requires-new-audit@test.com",
+            });
+          },
+          { propagation: Propagation.REQUIRES_NEW }
+        );
+
+        this.assert(innerCommitted, "Inner commit hooks should have fired");
+
+        // Back on the outer transaction, its own uncommitted row is visible
+        const resumed = await db
+          .select()
+          .from(users)
+          .where(eq(users.id, outerUser.id));
+        this.assert(
+          resumed.length === 1,
+          "Outer transaction should be resumed after REQUIRES_NEW"
+        );
+
+        throw new Error("Outer failure");
+      });
+    } catch (error) {
+      if (!(error instanceof Error) || error.message !== "Outer failure") {
+        throw error;
+      }
+    }
+
+    this.assert(outerRollbackHookFired, "Outer rollback hooks should fire");
+
+    const outer = await db
+      .select()
+      .from(users)
+      .where(eq(users.email, "requires-new-outer@test.com"));
+    this.assert(outer.length === 0, "Outer transaction should be rolled back");
+
+    const audit = await db
+      .select()
+      .from(users)
+      .where(eq(users.email, "requires-new-audit@test.com"));
+    this.assert(audit.length === 1, "REQUIRES_NEW work should be committed");
+  }
+
+  /**
+   * A transaction on a second database must not join the transaction of the
+   * first one, and each proxy must keep pointing at its own transaction
+   */
+  private async testPerDatabaseTransactions(): Promise<void> {
+    const db = this.getDatabase();
+    const analyticsDb = this.getDatabase("analytics");
+    let outerRollbackHookFired = false;
+
+    try {
+      await runInTransaction(async () => {
+        const [user] = await db
+          .insert(users)
+          .values({ name: "Default User", email: "multi-default@test.com" })
+          .returning();
+
+        this.assert(
+          !analyticsDb.isTransacting,
+          "Analytics should not see the default transaction"
+        );
+
+        await runInTransaction(
+          async () => {
+            this.assert(
+              analyticsDb.isTransacting,
+              "Analytics should start its own transaction"
+            );
+
+            // The default proxy still points at the default transaction
+            const own = await db
+              .select()
+              .from(users)
+              .where(eq(users.id, user.id));
+            this.assert(own.length === 1, "Default proxy should keep its tx");
+
+            // The analytics transaction can't see uncommitted default data
+            const foreign = await analyticsDb
+              .select()
+              .from(users)
+              .where(eq(users.id, user.id));
+            this.assert(
+              foreign.length === 0,
+              "Analytics proxy should use its own transaction"
+            );
+
+            await analyticsDb.insert(users).values({
+              name: "Analytics User",
+              email: "multi-analytics@test.com",
+            });
+          },
+          { databaseName: "analytics" }
+        );
+
+        // Hooks registered after the analytics call belong to the outer scope
+        runOnTransactionRollback(() => {
+          outerRollbackHookFired = true;
+        });
+
+        throw new Error("Default failure");
+      });
+    } catch (error) {
+      if (!(error instanceof Error) || error.message !== "Default failure") {
+        throw error;
+      }
+    }
+
+    this.assert(outerRollbackHookFired, "Outer rollback hook should fire");
+
+    const defaultRows = await db
+      .select()
+      .from(users)
+      .where(eq(users.email, "multi-default@test.com"));
+    this.assert(defaultRows.length === 0, "Default tx should be rolled back");
+
+    const analyticsRows = await db
+      .select()
+      .from(users)
+      .where(eq(users.email, "multi-analytics@test.com"));
+    this.assert(analyticsRows.length === 1, "Analytics tx should be committed");
+  }
+
+  /**
+   * A call joining the default transaction from inside an analytics
+   * transaction registers its hooks with the default transaction
+   */
+  private async testJoinFromOtherDatabase(): Promise<void> {
+    const fired: string[] = [];
+
+    try {
+      await runInTransaction(async () => {
+        await runInTransaction(
+          async () => {
+            await runInTransaction(async () => {
+              runOnTransactionCommit(() => {
+                fired.push("default:commit");
+              });
+              runOnTransactionRollback(() => {
+                fired.push("default:rollback");
+              });
+            });
+          },
+          { databaseName: "analytics" }
+        );
+
+        this.assert(
+          fired.length === 0,
+          `No default hook should fire with analytics: ${fired.join(",")}`
+        );
+        throw new Error("Default failure");
+      });
+    } catch (error) {
+      if (!(error instanceof Error) || error.message !== "Default failure") {
+        throw error;
+      }
+    }
+
+    this.assert(
+      fired.join(",") === "default:rollback",
+      `Hooks should follow the default transaction: ${fired.join(",")}`
+    );
+  }
+
+  /**
+   * Suspending calls tell the synchronizations of the outer transaction,
+   * including ones registered in a released savepoint, and the completion
+   * callbacks fire with the outer transaction
+   */
+  private async testSynchronizationSuspendResume(): Promise<void> {
+    const calls: string[] = [];
+    const track = (name: string) => ({
+      suspend: () => {
+        calls.push(`suspend:${name}`);
+      },
+      resume: () => {
+        calls.push(`resume:${name}`);
+      },
+      beforeCommit: () => {
+        calls.push(`beforeCommit:${name}`);
+      },
+      afterCommit: () => {
+        calls.push(`afterCommit:${name}`);
+      },
+      afterCompletion: (error: Error | undefined) => {
+        calls.push(`afterCompletion:${name}:${error ? "error" : "ok"}`);
+      },
+    });
+
+    await runInTransaction(async () => {
+      registerTransactionSynchronization(track("outer"));
+      await runInTransaction(
+        async () => {
+          registerTransactionSynchronization(track("savepoint"));
+        },
+        { propagation: Propagation.NESTED }
+      );
+
+      await runInTransaction(
+        async () => {
+          calls.push("requiresNew");
+          registerTransactionSynchronization({
+            suspend: () => {
+              calls.push("suspend:inner");
+            },
+          });
+        },
+        { propagation: Propagation.REQUIRES_NEW }
+      );
+      await runInTransaction(
+        async () => {
+          calls.push("notSupported");
+        },
+        { propagation: Propagation.NOT_SUPPORTED }
+      );
+    });
+
+    const expected = [
+      "suspend:outer",
+      "suspend:savepoint",
+      "requiresNew",
+      "resume:savepoint",
+      "resume:outer",
+      "suspend:outer",
+      "suspend:savepoint",
+      "notSupported",
+      "resume:savepoint",
+      "resume:outer",
+      "beforeCommit:outer",
+      "beforeCommit:savepoint",
+      "afterCommit:outer",
+      "afterCommit:savepoint",
+      "afterCompletion:outer:ok",
+      "afterCompletion:savepoint:ok",
+    ];
+    this.assert(
+      calls.join(",") === expected.join(","),
+      `Unexpected calls: ${calls.join(",")}`
+    );
+  }
+}
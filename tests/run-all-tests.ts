@@ -6,11 +6,17 @@
 import { addTransactionalDrizzleDatabase } from "../dist/esm/drizzle/database-manager.js";
 import { initializeDrizzleTransactionalContext } from "../dist/esm/storage/index.js";
 import { AdvancedIsolationTests } from "./advanced-isolation-tests.js";
+import { AfterCommitQueueTests } from "./after-commit-queue-tests.js";
 import { BasicTransactionTests } from "./basic-transaction-tests.js";
+import { ContextTests } from "./context-tests.js";
 import { setupDatabase } from "./database-schema-postgres.js";
 import { IsolationLevelTests } from "./isolation-level-tests.js";
 import { NestedTimeoutTests } from "./nested-timeout-test.js";
+import { PropagationTests } from "./propagation-tests.js";
 import { RealWorldScenarioTests } from "./real-world-scenario-tests.js";
+import { TransactionHooksTests } from "./transaction-hooks-tests.js";
+import { TransactionManagerTests } from "./transaction-manager-tests.js";
+import { TransactionOptionsTests } from "./transaction-options-tests.js";
 
 /**
  * Initialize database and transactional context
@@ -26,6 +32,9 @@ async function initializeTestEnvironment(): Promise<void> {
     // Register the database with the transactional system
     addTransactionalDrizzleDatabase(db, "default");
 
+    // Register the same pool under a second name for multi-database tests
+    addTransactionalDrizzleDatabase(db, "analytics");
+
     console.log("✅ Test environment initialized successfully\n");
   } catch (error) {
     console.error("❌ Failed to initialize test environment:", error);
@@ -61,6 +70,18 @@ class ComprehensiveTestSuite {
         suite: new RealWorldScenarioTests(),
       },
       { name: "PostgreSQL Transaction Tests", suite: new NestedTimeoutTests() },
+      { name: "Propagation Tests", suite: new PropagationTests() },
+      {
+        name: "Transaction Options Tests",
+        suite: new TransactionOptionsTests(),
+      },
+      {
+        name: "Transaction Manager Tests",
+        suite: new TransactionManagerTests(),
+      },
+      { name: "Transaction Hooks Tests", suite: new TransactionHooksTests() },
+      { name: "After-Commit Queue Tests", suite: new AfterCommitQueueTests() },
+      { name: "Context Tests", suite: new ContextTests() },
     ];
 
     for (const { name, suite } of testSuites) {
@@ -0,0 +1,859 @@
+import { eq } from "drizzle-orm";
+import { NodePgDatabase } from "drizzle-orm/node-postgres";
+import {
+  createTransactionalDatabaseProxy,
+  getCurrentTransactionId,
+} from "../dist/esm/drizzle/database-manager.js";
+import { HookOutsideTransactionPolicy } from "../dist/esm/enums/hook-outside-transaction-policy.js";
+import { IsolationLevel } from "../dist/esm/enums/isolation-level.js";
+import { Propagation } from "../dist/esm/enums/propagation.js";
+import { DrizzleTransactionalError } from "../dist/esm/errors/transactional.js";
+import {
+  onTransactionEvent,
+  type TransactionEvent,
+  type TransactionLifecycleEvent,
+} from "../dist/esm/events/index.js";
+import {
+  afterCommit,
+  runBeforeTransactionCommit,
+  runBeforeTransactionCompletion,
+  runOnTransactionComplete,
+  runOnTransactionCommit,
+  runOnTransactionRollback,
+  type TransactionOutcome,
+} from "../dist/esm/hooks/index.js";
+import { initializeDrizzleTransactionalContext } from "../dist/esm/storage/index.js";
+import { runInTransaction } from "../dist/esm/transactions/run-in-transaction.js";
+import { BaseTestRunner } from "./base-test-runner.js";
+import { users } from "./database-schema-postgres.js";
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Tests for the execution order, awaiting and error handling of transaction hooks
+ */
+export class TransactionHooksTests extends BaseTestRunner {
+  /**
+   * Get the global database instance
+   */
+  private getDatabase() {
+    return createTransactionalDatabaseProxy(
+      "default"
+    ) as NodePgDatabase<any> & {
+      isTransacting: boolean;
+      baseDatabase: NodePgDatabase<any>;
+    };
+  }
+
+  /**
+   * Custom assertion helper that throws if condition is false
+   */
+  private assert(condition: boolean, message: string): void {
+    if (!condition) {
+      throw new Error(`Assertion failed: ${message}`);
+    }
+  }
+
+  public async runTests(): Promise<void> {
+    await this.runTest("Async hooks are awaited in registration order", () =>
+      this.testAsyncHooksAwaitedInOrder()
+    );
+    await this.runTest("Hook failures are aggregated", () =>
+      this.testHookFailuresAggregated()
+    );
+    await this.runTest("Failing commit hooks don't retry the commit", () =>
+      this.testCommitHookFailureNotRetried()
+    );
+    await this.runTest("Failing commit hooks are reported as commit", () =>
+      this.testCommitHookFailureReportedAsCommit()
+    );
+    await this.runTest("Hook failures reach onHookError", () =>
+      this.testOnHookError()
+    );
+    await this.runTest("Fire-and-forget hooks are not awaited", () =>
+      this.testFireAndForgetHooks()
+    );
+    await this.runTest("afterCommit() settles with the outcome", () =>
+      this.testAfterCommitPromise()
+    );
+    await this.runTest("Before-commit hooks write inside the transaction", () =>
+      this.testBeforeCommitWrites()
+    );
+    await this.runTest("Failing before-commit hook vetoes the commit", () =>
+      this.testBeforeCommitVeto()
+    );
+    await this.runTest(
+      "Released savepoint hooks wait for the outer commit",
+      () => this.testSavepointHooksPromoted()
+    );
+    await this.runTest("Rolled back savepoint discards its commit hooks", () =>
+      this.testSavepointHooksDiscarded()
+    );
+    await this.runTest("Hooks run by priority and merge by key", () =>
+      this.testHookPrioritiesAndKeys()
+    );
+    await this.runTest("Keyed hooks merge across savepoints", () =>
+      this.testKeyedHooksAcrossSavepoints()
+    );
+    await this.runTest("Policy for hooks outside a transaction", () =>
+      this.testHooksOutsideTransaction()
+    );
+    await this.runTest("Global listeners receive lifecycle events", () =>
+      this.testGlobalTransactionEvents()
+    );
+    await this.runTest("Hooks receive the transaction event", () =>
+      this.testHookTransactionEvent()
+    );
+  }
+
+  /**
+   * A slow first hook must finish before the second one starts, and both
+   * before the transactional call resolves
+   */
+  private async testAsyncHooksAwaitedInOrder(): Promise<void> {
+    const calls: string[] = [];
+
+    await runInTransaction(async () => {
+      runOnTransactionCommit(async () => {
+        await delay(30);
+        calls.push("first commit");
+      });
+      runOnTransactionCommit(async () => {
+        calls.push("second commit");
+      });
+      runOnTransactionComplete(async () => {
+        await delay(10);
+        calls.push("complete");
+      });
+    });
+
+    this.assert(
+      calls.join(",") === "first commit,second commit,complete",
+      `Unexpected hook order: ${calls.join(",")}`
+    );
+  }
+
+  /**
+   * Every hook runs even when some fail, and the failures are logged together
+   * while the call resolves with the committed data
+   */
+  private async testHookFailuresAggregated(): Promise<void> {
+    const db = this.getDatabase();
+    let remainingHookRan = false;
+    const errors: unknown[] = [];
+    const originalError = console.error;
+    console.error = (error: unknown) => errors.push(error);
+
+    try {
+      await runInTransaction(async () => {
+        runOnTransactionCommit(async () => {
+          throw new Error("Cache unavailable");
+        });
+        runOnTransactionCommit(() => {
+          throw new Error("Mailer unavailable");
+        });
+        runOnTransactionComplete(() => {
+          remainingHookRan = true;
+        });
+
+        await db
+          .insert(users)
+          .values({ name: "Hook User", email: "hook-failure@test.com" });
+      });
+    } finally {
+      console.error = originalError;
+    }
+
+    const logged = errors.find(
+      (error) =>
+        error instanceof DrizzleTransactionalError &&
+        error.code === "HOOKS_FAILED"
+    ) as DrizzleTransactionalError | undefined;
+    const messages = logged?.errors?.map(
+      (failure) => (failure as Error).message
+    );
+    this.assert(
+      messages?.join(",") === "Cache unavailable,Mailer unavailable",
+      `Unexpected aggregated errors: ${messages}`
+    );
+
+    this.assert(remainingHookRan, "Remaining hooks should still run");
+
+    const stored = await db
+      .select()
+      .from(users)
+      .where(eq(users.email, "hook-failure@test.com"));
+    this.assert(stored.length === 1, "Transaction should stay committed");
+  }
+
+  /**
+   * A commit hook failing with a serialization failure must not make the
+   * retry policy run the committed transaction again
+   */
+  private async testCommitHookFailureNotRetried(): Promise<void> {
+    const db = this.getDatabase();
+    let attempts = 0;
+    const originalError = console.error;
+    console.error = () => undefined;
+
+    try {
+      await runInTransaction(
+        async () => {
+          attempts++;
+          runOnTransactionCommit(() => {
+            throw Object.assign(new Error("Projection conflict"), {
+              code: "40001",
+            });
+          });
+
+          await db
+            .insert(users)
+            .values({ name: "Once User", email: "commit-once@test.com" });
+        },
+        { retry: { maxAttempts: 3, initialDelay: 1 } }
+      );
+    } finally {
+      console.error = originalError;
+    }
+
+    this.assert(attempts === 1, `Expected one attempt, got ${attempts}`);
+
+    const stored = await db
+      .select()
+      .from(users)
+      .where(eq(users.email, "commit-once@test.com"));
+    this.assert(stored.length === 1, "Data should be written once");
+  }
+
+  /**
+   * Global listeners are told "commit" for a committed transaction whose
+   * commit hooks failed
+   */
+  private async testCommitHookFailureReportedAsCommit(): Promise<void> {
+    const types: string[] = [];
+    const originalError = console.error;
+    console.error = () => undefined;
+    const removeListener = onTransactionEvent((event) => {
+      if (event.name === "publishReport") {
+        types.push(event.type);
+      }
+    });
+
+    try {
+      await runInTransaction(
+        async () => {
+          runOnTransactionCommit(() => {
+            throw new Error("Broker unavailable");
+          });
+        },
+        { name: "publishReport" }
+      );
+    } finally {
+      removeListener();
+      console.error = originalError;
+    }
+
+    this.assert(
+      types.join(",") === "start,commit,end",
+      `Expected start,commit,end, got ${types.join(",")}`
+    );
+  }
+
+  /**
+   * Failures of hooks and global listeners go to the onHookError option
+   * instead of the console, each labelled with where it happened
+   */
+  private async testOnHookError(): Promise<void> {
+    const reported: DrizzleTransactionalError[] = [];
+    let logged = 0;
+    const originalError = console.error;
+    console.error = () => {
+      logged++;
+    };
+    initializeDrizzleTransactionalContext({
+      onHookError: (error) => reported.push(error),
+    });
+    const removeListener = onTransactionEvent((event) => {
+      if (event.type === "start" && event.name === "notifyWarehouse") {
+        throw new Error("Metrics unavailable");
+      }
+    });
+
+    try {
+      await runInTransaction(
+        async () => {
+          runOnTransactionCommit(() => {
+            throw new Error("Warehouse unavailable");
+          });
+        },
+        { name: "notifyWarehouse" }
+      );
+    } finally {
+      removeListener();
+      console.error = originalError;
+      initializeDrizzleTransactionalContext();
+    }
+
+    this.assert(logged === 0, "Nothing should be logged to the console");
+    this.assert(
+      reported.every((error) => error.code === "HOOKS_FAILED"),
+      "Reported errors should have the HOOKS_FAILED code"
+    );
+    const phases = reported.map(
+      (error) => `${error.details?.phase}:${(error.cause as Error).message}`
+    );
+    this.assert(
+      phases.join(",") ===
+        "listener:Metrics unavailable,commit:Warehouse unavailable",
+      `Unexpected reported failures: ${phases.join(",")}`
+    );
+    this.assert(
+      reported[0].message.includes('"start" event'),
+      `Listener failures should name the event: ${reported[0].message}`
+    );
+  }
+
+  /**
+   * A fire-and-forget hook doesn't delay the call and its failure is only logged
+   */
+  private async testFireAndForgetHooks(): Promise<void> {
+    let finished = false;
+    const errors: unknown[] = [];
+    const originalError = console.error;
+    console.error = (error: unknown) => errors.push(error);
+
+    try {
+      await runInTransaction(async () => {
+        runOnTransactionCommit(
+          async () => {
+            await delay(20);
+            finished = true;
+            throw new Error("Webhook failed");
+          },
+          { fireAndForget: true }
+        );
+      });
+
+      this.assert(!finished, "Call should resolve before the hook finishes");
+      await delay(50);
+    } finally {
+      console.error = originalError;
+    }
+
+    this.assert(finished, "Hook should still run");
+    this.assert(
+      errors.some(
+        (error) =>
+          error instanceof DrizzleTransactionalError &&
+          error.code === "HOOKS_FAILED"
+      ),
+      "Hook failure should be logged"
+    );
+  }
+
+  /**
+   * afterCommit() resolves with the outcome and never rejects, so a `.then()`
+   * chain attached to it survives a rollback
+   */
+  private async testAfterCommitPromise(): Promise<void> {
+    let committed: Promise<TransactionOutcome> | undefined;
+
+    await runInTransaction(async () => {
+      committed = afterCommit();
+    });
+    const commitOutcome = await committed!;
+    this.assert(commitOutcome.committed, "Commit should be reported");
+
+    let rolledBack: Promise<TransactionOutcome> | undefined;
+    let chained = false;
+    const unhandled: unknown[] = [];
+    const onUnhandled = (reason: unknown) => unhandled.push(reason);
+    process.on("unhandledRejection", onUnhandled);
+    const failure = new Error("Rolled back");
+
+    try {
+      await runInTransaction(async () => {
+        rolledBack = afterCommit();
+        rolledBack.then(() => {
+          chained = true;
+        });
+        throw failure;
+      });
+    } catch (error) {
+      if (error !== failure) {
+        throw error;
+      }
+    } finally {
+      await delay(10);
+      process.off("unhandledRejection", onUnhandled);
+    }
+
+    const rollbackOutcome = await rolledBack!;
+    this.assert(
+      !rollbackOutcome.committed && rollbackOutcome.error === failure,
+      "Rollback should be reported with its error"
+    );
+    this.assert(chained, "Chained callback should run");
+    this.assert(unhandled.length === 0, "No rejection should be unhandled");
+  }
+
+  /**
+   * Before-commit hooks run after the body on the open transaction, so their
+   * writes are committed together with it
+   */
+  private async testBeforeCommitWrites(): Promise<void> {
+    const db = this.getDatabase();
+    const calls: string[] = [];
+
+    await runInTransaction(async () => {
+      runBeforeTransactionCommit(async () => {
+        calls.push("before commit");
+        this.assert(db.isTransacting, "Hook should run in the transaction");
+        await db
+          .insert(users)
+          .values({ name: "Audit Row", email: "before-commit@test.com" });
+      });
+      runBeforeTransactionCompletion((error) => {
+        calls.push(error ? "before completion (error)" : "before completion");
+      });
+      runOnTransactionCommit(() => {
+        calls.push("commit");
+      });
+
+      calls.push("body");
+    });
+
+    this.assert(
+      calls.join(",") === "body,before commit,before completion,commit",
+      `Unexpected hook order: ${calls.join(",")}`
+    );
+
+    const stored = await db
+      .select()
+      .from(users)
+      .where(eq(users.email, "before-commit@test.com"));
+    this.assert(stored.length === 1, "Hook writes should be committed");
+  }
+
+  /**
+   * A throwing before-commit hook rolls back the body's writes and its error
+   * reaches the caller and the other hooks
+   */
+  private async testBeforeCommitVeto(): Promise<void> {
+    const db = this.getDatabase();
+    const veto = new Error("Invariant violated");
+    let beforeCompletionError: Error | undefined;
+    let rollbackError: Error | undefined;
+
+    try {
+      await runInTransaction(async () => {
+        runBeforeTransactionCommit(() => {
+          throw veto;
+        });
+        runBeforeTransactionCompletion((error) => {
+          beforeCompletionError = error;
+        });
+        runOnTransactionRollback((error) => {
+          rollbackError = error;
+        });
+
+        await db
+          .insert(users)
+          .values({ name: "Vetoed User", email: "vetoed@test.com" });
+      });
+      throw new Error("Commit should have been vetoed");
+    } catch (error) {
+      this.assert(error === veto, `Unexpected error: ${error}`);
+    }
+
+    this.assert(beforeCompletionError === veto, "beforeCompletion gets error");
+    this.assert(rollbackError === veto, "Rollback hooks should fire");
+
+    const stored = await db
+      .select()
+      .from(users)
+      .where(eq(users.email, "vetoed@test.com"));
+    this.assert(stored.length === 0, "Vetoed transaction should roll back");
+  }
+
+  /**
+   * Commit hooks of a released savepoint move to the outer transaction: they
+   * fire with its commit, or not at all when it rolls back
+   */
+  private async testSavepointHooksPromoted(): Promise<void> {
+    const runNested = (calls: string[]) =>
+      runInTransaction(
+        async () => {
+          runOnTransactionCommit(() => {
+            calls.push("savepoint commit");
+          });
+          runOnTransactionRollback(() => {
+            calls.push("savepoint rollback");
+          });
+        },
+        { propagation: Propagation.NESTED }
+      );
+
+    const committedCalls: string[] = [];
+    await runInTransaction(async () => {
+      await runNested(committedCalls);
+      this.assert(
+        committedCalls.length === 0,
+        "Savepoint hooks should not fire on release"
+      );
+    });
+    this.assert(
+      committedCalls.join(",") === "savepoint commit",
+      `Unexpected hooks after outer commit: ${committedCalls.join(",")}`
+    );
+
+    const rolledBackCalls: string[] = [];
+    try {
+      await runInTransaction(async () => {
+        await runNested(rolledBackCalls);
+        throw new Error("Outer failure");
+      });
+    } catch (error) {
+      if (!(error instanceof Error) || error.message !== "Outer failure") {
+        throw error;
+      }
+    }
+    this.assert(
+      rolledBackCalls.join(",") === "savepoint rollback",
+      `Unexpected hooks after outer rollback: ${rolledBackCalls.join(",")}`
+    );
+  }
+
+  /**
+   * A savepoint rollback fires its rollback hooks right away and drops its
+   * commit hooks, while the outer transaction keeps its own hooks
+   */
+  private async testSavepointHooksDiscarded(): Promise<void> {
+    const calls: string[] = [];
+
+    await runInTransaction(async () => {
+      runOnTransactionCommit(() => {
+        calls.push("outer commit");
+      });
+
+      try {
+        await runInTransaction(
+          async () => {
+            runOnTransactionCommit(() => {
+              calls.push("savepoint commit");
+            });
+            runOnTransactionRollback(() => {
+              calls.push("savepoint rollback");
+            });
+            throw new Error("Savepoint failure");
+          },
+          { propagation: Propagation.NESTED }
+        );
+      } catch (error) {
+        if (
+          !(error instanceof Error) ||
+          error.message !== "Savepoint failure"
+        ) {
+          throw error;
+        }
+      }
+
+      this.assert(
+        calls.join(",") === "savepoint rollback",
+        "Savepoint rollback hooks should fire right away"
+      );
+    });
+
+    this.assert(
+      calls.join(",") === "savepoint rollback,outer commit",
+      `Unexpected hooks: ${calls.join(",")}`
+    );
+  }
+
+  /**
+   * Higher priorities run first, and a key registers a hook at most once per
+   * transaction
+   */
+  private async testHookPrioritiesAndKeys(): Promise<void> {
+    const calls: string[] = [];
+
+    await runInTransaction(async () => {
+      runOnTransactionCommit(() => {
+        calls.push("default priority");
+      });
+      runOnTransactionCommit(
+        () => {
+          calls.push("publish events");
+        },
+        { priority: -10 }
+      );
+
+      for (let i = 1; i <= 10; i++) {
+        runOnTransactionCommit(
+          () => {
+            calls.push(`invalidate cache ${i}`);
+          },
+          { key: "invalidate:users", priority: 10 }
+        );
+        runOnTransactionCommit(
+          () => {
+            calls.push(`index search ${i}`);
+          },
+          { key: "index:users", priority: 5, onDuplicateKey: "keep" }
+        );
+      }
+    });
+
+    this.assert(
+      calls.join(",") ===
+        "invalidate cache 10,index search 1,default priority,publish events",
+      `Unexpected hooks: ${calls.join(",")}`
+    );
+  }
+
+  /**
+   * Hooks promoted from released savepoints keep their duplicate-key rule, so
+   * "keep" leaves the enclosing transaction's hook in place at every level
+   */
+  private async testKeyedHooksAcrossSavepoints(): Promise<void> {
+    const calls: string[] = [];
+    const indexUsers = (source: string) =>
+      runOnTransactionCommit(
+        () => {
+          calls.push(`index ${source}`);
+        },
+        { key: "index:users", onDuplicateKey: "keep" }
+      );
+    const nested = (fn: () => Promise<void>) =>
+      runInTransaction(fn, { propagation: Propagation.NESTED });
+
+    await runInTransaction(async () => {
+      indexUsers("outer");
+      await nested(async () => {
+        indexUsers("savepoint");
+        await nested(async () => {
+          indexUsers("inner savepoint");
+        });
+      });
+    });
+
+    this.assert(
+      calls.join(",") === "index outer",
+      `Unexpected hooks: ${calls.join(",")}`
+    );
+  }
+
+  /**
+   * Without a transaction hooks run immediately, are deferred to the end of
+   * the non-transactional scope (if there is one) or are rejected, depending
+   * on the policy
+   */
+  private async testHooksOutsideTransaction(): Promise<void> {
+    const calls: string[] = [];
+
+    runOnTransactionCommit(
+      () => {
+        calls.push("immediate commit");
+      },
+      { outsideTransaction: HookOutsideTransactionPolicy.RUN_IMMEDIATELY }
+    );
+    runOnTransactionRollback(
+      () => {
+        calls.push("immediate rollback");
+      },
+      { outsideTransaction: HookOutsideTransactionPolicy.RUN_IMMEDIATELY }
+    );
+    this.assert(
+      calls.join(",") === "immediate commit",
+      `Commit hooks should run right away: ${calls.join(",")}`
+    );
+
+    // Without any scope to defer to, DEFER runs the hook right away
+    calls.length = 0;
+    runOnTransactionCommit(() => {
+      calls.push("undeferrable commit");
+    });
+    this.assert(
+      calls.join(",") === "undeferrable commit",
+      `DEFER without any scope should run right away: ${calls.join(",")}`
+    );
+
+    calls.length = 0;
+    await runInTransaction(
+      async () => {
+        runOnTransactionCommit(() => {
+          calls.push("deferred commit");
+        });
+
+        try {
+          runOnTransactionCommit(() => undefined, {
+            outsideTransaction: HookOutsideTransactionPolicy.THROW,
+          });
+          throw new Error("THROW should reject the hook");
+        } catch (error) {
+          this.assert(
+            error instanceof DrizzleTransactionalError &&
+              error.code === "HOOK_OUTSIDE_TRANSACTION",
+            `Expected HOOK_OUTSIDE_TRANSACTION, got: ${error}`
+          );
+        }
+
+        calls.push("body");
+      },
+      { propagation: Propagation.SUPPORTS }
+    );
+    this.assert(
+      calls.join(",") === "body,deferred commit",
+      `Hook should be deferred to the end of the scope: ${calls.join(",")}`
+    );
+  }
+
+  /**
+   * A global listener sees start, suspend, resume, commit, rollback and end
+   * events of every transaction, with the suspended transaction's ID
+   */
+  private async testGlobalTransactionEvents(): Promise<void> {
+    const events: TransactionLifecycleEvent[] = [];
+    const unsubscribe = onTransactionEvent((event) => events.push(event));
+    const failure = new Error("Audit failed");
+
+    try {
+      await runInTransaction(
+        async () => {
+          try {
+            await runInTransaction(
+              async () => {
+                throw failure;
+              },
+              { propagation: Propagation.REQUIRES_NEW, name: "audit" }
+            );
+          } catch (error) {
+            if (error !== failure) {
+              throw error;
+            }
+          }
+        },
+        { isolationLevel: IsolationLevel.SERIALIZABLE, name: "placeOrder" }
+      );
+    } finally {
+      unsubscribe();
+    }
+
+    const summary = events.map((event) => `${event.type}:${event.name}`);
+    this.assert(
+      summary.join(",") ===
+        [
+          "start:placeOrder",
+          "suspend:placeOrder",
+          "start:audit",
+          "rollback:audit",
+          "end:audit",
+          "resume:placeOrder",
+          "commit:placeOrder",
+          "end:placeOrder",
+        ].join(","),
+      `Unexpected events: ${summary.join(",")}`
+    );
+
+    const [outerStart, suspend, innerStart, rollback] = events;
+    this.assert(
+      outerStart.isolationLevel === IsolationLevel.SERIALIZABLE &&
+        outerStart.databaseName === "default" &&
+        outerStart.propagation === Propagation.REQUIRED,
+      "Start event should describe the transaction"
+    );
+    this.assert(
+      suspend.transactionId === outerStart.transactionId &&
+        suspend.propagation === Propagation.REQUIRES_NEW,
+      "Suspend event should carry the suspended transaction"
+    );
+    this.assert(
+      innerStart.transactionId !== outerStart.transactionId,
+      "REQUIRES_NEW should report its own transaction ID"
+    );
+    this.assert(
+      rollback.error === failure && rollback.duration >= 0,
+      "Rollback event should carry the error and duration"
+    );
+
+    await runInTransaction(async () => undefined);
+    this.assert(events.length === 8, "Unsubscribed listener should stop");
+  }
+
+  /**
+   * Every hook gets the description of its transaction as last argument,
+   * with the end timestamp once the transaction completed
+   */
+  private async testHookTransactionEvent(): Promise<void> {
+    const received: Record<string, TransactionEvent> = {};
+    let transactionId: string | undefined;
+    const failure = new Error("Rejected order");
+
+    await runInTransaction(
+      async () => {
+        transactionId = getCurrentTransactionId();
+        runBeforeTransactionCommit((event) => {
+          received.beforeCommit = event;
+        });
+        runOnTransactionCommit((event) => {
+          received.commit = event;
+        });
+        runOnTransactionComplete((_, event) => {
+          received.complete = event;
+        });
+      },
+      {
+        name: "placeOrder",
+        isolationLevel: IsolationLevel.REPEATABLE_READ,
+        metadata: { orderId: 42 },
+      }
+    );
+
+    const { beforeCommit, commit, complete } = received;
+    this.assert(
+      commit.transactionId === transactionId &&
+        commit.name === "placeOrder" &&
+        commit.databaseName === "default" &&
+        commit.isolationLevel === IsolationLevel.REPEATABLE_READ &&
+        commit.attempt === 1 &&
+        commit.metadata?.orderId === 42,
+      `Commit hook should describe the transaction: ${JSON.stringify(commit)}`
+    );
+    this.assert(
+      beforeCommit.transactionId === transactionId &&
+        beforeCommit.endedAt === undefined,
+      "Before-commit hook should run before the end timestamp is set"
+    );
+    this.assert(
+      commit.endedAt instanceof Date &&
+        commit.endedAt.getTime() >= commit.startedAt.getTime() &&
+        complete.endedAt === commit.endedAt,
+      "Commit and completion hooks should get the end timestamp"
+    );
+
+    let rollbackError: Error | undefined;
+    try {
+      await runInTransaction(
+        async () => {
+          runOnTransactionRollback((error, event) => {
+            rollbackError = error;
+            received.rollback = event;
+          });
+          throw failure;
+        },
+        { metadata: { orderId: 43 } }
+      );
+    } catch (error) {
+      if (error !== failure) {
+        throw error;
+      }
+    }
+
+    this.assert(
+      rollbackError === failure &&
+        received.rollback.metadata?.orderId === 43 &&
+        received.rollback.endedAt instanceof Date,
+      "Rollback hook should get the error and the event"
+    );
+  }
+}
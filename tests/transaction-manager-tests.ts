@@ -0,0 +1,233 @@
+import { eq } from "drizzle-orm";
+import { NodePgDatabase } from "drizzle-orm/node-postgres";
+import { createTransactionalDatabaseProxy } from "../dist/esm/drizzle/database-manager.js";
+import { TransactionStatus } from "../dist/esm/enums/transaction-status.js";
+import { DrizzleTransactionalError } from "../dist/esm/errors/transactional.js";
+import {
+  runOnTransactionCommit,
+  runOnTransactionRollback,
+} from "../dist/esm/hooks/index.js";
+import { runInTransaction } from "../dist/esm/transactions/run-in-transaction.js";
+import {
+  TransactionManager,
+  TransactionTemplate,
+} from "../dist/esm/transactions/transaction-manager.js";
+import { BaseTestRunner } from "./base-test-runner.js";
+import { users } from "./database-schema-postgres.js";
+
+/**
+ * Tests for transactions controlled through TransactionManager handles
+ */
+export class TransactionManagerTests extends BaseTestRunner {
+  private readonly transactionManager = new TransactionManager();
+
+  /**
+   * Get the global database instance
+   */
+  private getDatabase() {
+    return createTransactionalDatabaseProxy(
+      "default"
+    ) as NodePgDatabase<any> & {
+      isTransacting: boolean;
+      baseDatabase: NodePgDatabase<any>;
+    };
+  }
+
+  /**
+   * Custom assertion helper that throws if condition is false
+   */
+  private assert(condition: boolean, message: string): void {
+    if (!condition) {
+      throw new Error(`Assertion failed: ${message}`);
+    }
+  }
+
+  public async runTests(): Promise<void> {
+    await this.runTest("Handle spans several run() calls and commits", () =>
+      this.testCommitHandle()
+    );
+    await this.runTest("Handle rollback undoes joined work", () =>
+      this.testRollbackHandle()
+    );
+    await this.runTest("Conflicting commit and rollback are rejected", () =>
+      this.testConflictingDecisions()
+    );
+    await this.runTest("TransactionTemplate applies its options", () =>
+      this.testTransactionTemplate()
+    );
+  }
+
+  /**
+   * Work from separate run() calls lands in one transaction, and hooks
+   * registered along the way fire once the handle is committed
+   */
+  private async testCommitHandle(): Promise<void> {
+    const db = this.getDatabase();
+    let commitHookFired = false;
+
+    const handle = await this.transactionManager.begin();
+    this.assert(handle.status === TransactionStatus.ACTIVE, "Should be active");
+    this.assert(!db.isTransacting, "Proxy outside run() should not transact");
+
+    await handle.run(async () => {
+      this.assert(db.isTransacting, "Proxy inside run() should transact");
+      runOnTransactionCommit(() => {
+        commitHookFired = true;
+      });
+      await db
+        .insert(users)
+        .values({ name: "Handle User", email: "handle@test.com" });
+    });
+
+    // A later lifecycle callback sees the uncommitted row
+    const visible = await handle.run(() =>
+      db.select().from(users).where(eq(users.email, "handle@test.com"))
+    );
+    this.assert(visible.length === 1, "Second run() should use the same tx");
+
+    const outside = await db
+      .select()
+      .from(users)
+      .where(eq(users.email, "handle@test.com"));
+    this.assert(
+      outside.length === 0,
+      "Row should not be visible before commit"
+    );
+
+    await handle.commit();
+
+    this.assert(
+      handle.status === TransactionStatus.COMMITTED,
+      "Should be committed"
+    );
+    this.assert(commitHookFired, "Commit hooks should fire");
+
+    const stored = await db
+      .select()
+      .from(users)
+      .where(eq(users.email, "handle@test.com"));
+    this.assert(stored.length === 1, "Row should be committed");
+
+    try {
+      handle.run(() => undefined);
+      throw new Error("run() after commit should throw");
+    } catch (error) {
+      this.assert(
+        error instanceof DrizzleTransactionalError &&
+          error.code === "TRANSACTION_ALREADY_COMPLETED",
+        `Expected TRANSACTION_ALREADY_COMPLETED, got: ${error}`
+      );
+    }
+  }
+
+  /**
+   * runInTransaction calls inside run() join the handle's transaction, so an
+   * explicit rollback undoes their work too
+   */
+  private async testRollbackHandle(): Promise<void> {
+    const db = this.getDatabase();
+    let rollbackError: Error | undefined;
+
+    const handle = await this.transactionManager.begin();
+
+    await handle.run(() =>
+      runInTransaction(async () => {
+        runOnTransactionRollback((error) => {
+          rollbackError = error;
+        });
+        await db
+          .insert(users)
+          .values({ name: "Discarded User", email: "discarded@test.com" });
+      })
+    );
+
+    await handle.rollback();
+
+    this.assert(
+      handle.status === TransactionStatus.ROLLED_BACK,
+      "Should be rolled back"
+    );
+    this.assert(
+      rollbackError instanceof DrizzleTransactionalError &&
+        rollbackError.code === "EXPLICIT_ROLLBACK",
+      `Rollback hooks should receive EXPLICIT_ROLLBACK, got: ${rollbackError}`
+    );
+
+    const stored = await db
+      .select()
+      .from(users)
+      .where(eq(users.email, "discarded@test.com"));
+    this.assert(stored.length === 0, "Joined work should be rolled back");
+  }
+
+  /**
+   * The first of commit() and rollback() decides the outcome, and a second
+   * call rejects even before the first one settled
+   */
+  private async testConflictingDecisions(): Promise<void> {
+    const expectCompleted = async (call: Promise<void>) => {
+      try {
+        await call;
+        throw new Error("Second decision should be rejected");
+      } catch (error) {
+        this.assert(
+          error instanceof DrizzleTransactionalError &&
+            error.code === "TRANSACTION_ALREADY_COMPLETED",
+          `Expected TRANSACTION_ALREADY_COMPLETED, got: ${error}`
+        );
+      }
+    };
+
+    const committed = await this.transactionManager.begin();
+    const commit = committed.commit();
+    this.assert(
+      committed.status === TransactionStatus.COMMITTING,
+      "Should be committing"
+    );
+    await expectCompleted(committed.rollback());
+    await commit;
+    this.assert(
+      committed.status === TransactionStatus.COMMITTED,
+      "First decision should commit"
+    );
+
+    const rolledBack = await this.transactionManager.begin();
+    const rollback = rolledBack.rollback();
+    this.assert(
+      rolledBack.status === TransactionStatus.ROLLING_BACK,
+      "Should be rolling back"
+    );
+    await expectCompleted(rolledBack.commit());
+    await rollback;
+    this.assert(
+      rolledBack.status === TransactionStatus.ROLLED_BACK,
+      "First decision should roll back"
+    );
+  }
+
+  /**
+   * A template runs every function with the options it was created with
+   */
+  private async testTransactionTemplate(): Promise<void> {
+    const db = this.getDatabase();
+    const readOnlyTemplate = new TransactionTemplate({ readOnly: true });
+
+    const rows = await readOnlyTemplate.execute(() => db.select().from(users));
+    this.assert(Array.isArray(rows), "Reads should work");
+
+    try {
+      await readOnlyTemplate.execute(async () => {
+        await db
+          .insert(users)
+          .values({ name: "Template User", email: "template@test.com" });
+      });
+      throw new Error("Write should be rejected");
+    } catch (error) {
+      this.assert(
+        error instanceof DrizzleTransactionalError &&
+          error.code === "READ_ONLY_TRANSACTION",
+        `Expected READ_ONLY_TRANSACTION, got: ${error}`
+      );
+    }
+  }
+}
@@ -0,0 +1,780 @@
+import { inspect } from "util";
+import { eq, sql } from "drizzle-orm";
+import { NodePgDatabase } from "drizzle-orm/node-postgres";
+import { runWithContext } from "../dist/esm/context/async-local-storage.js";
+import {
+  createTransactionalDatabaseProxy,
+  isRollbackOnly,
+  onTransactionStart,
+  setRollbackOnly,
+} from "../dist/esm/drizzle/database-manager.js";
+import { IsolationLevel } from "../dist/esm/enums/isolation-level.js";
+import { IsolationMismatchPolicy } from "../dist/esm/enums/isolation-mismatch-policy.js";
+import { Propagation } from "../dist/esm/enums/propagation.js";
+import { DrizzleTransactionalError } from "../dist/esm/errors/transactional.js";
+import {
+  runBeforeTransactionCompletion,
+  runOnTransactionCommit,
+  runOnTransactionRollback,
+} from "../dist/esm/hooks/index.js";
+import { runInTransaction } from "../dist/esm/transactions/run-in-transaction.js";
+import { wrapInTransaction } from "../dist/esm/transactions/wrap-in-transaction.js";
+import { BaseTestRunner } from "./base-test-runner.js";
+import { users } from "./database-schema-postgres.js";
+
+class BusinessRuleError extends Error {}
+class CriticalBusinessRuleError extends BusinessRuleError {}
+class OutcomeSignal {
+  constructor(public readonly outcome: string) {}
+}
+
+/**
+ * Tests for the options accepted by runInTransaction and @Transactional
+ */
+export class TransactionOptionsTests extends BaseTestRunner {
+  /**
+   * Get the global database instance
+   */
+  private getDatabase() {
+    return createTransactionalDatabaseProxy(
+      "default"
+    ) as NodePgDatabase<any> & {
+      isTransacting: boolean;
+      baseDatabase: NodePgDatabase<any>;
+    };
+  }
+
+  /**
+   * Custom assertion helper that throws if condition is false
+   */
+  private assert(condition: boolean, message: string): void {
+    if (!condition) {
+      throw new Error(`Assertion failed: ${message}`);
+    }
+  }
+
+  public async runTests(): Promise<void> {
+    await this.runTest("Timeout cancels the running statement", () =>
+      this.testTimeoutCancelsStatement()
+    );
+    await this.runTest("Read-only transactions reject writes", () =>
+      this.testReadOnlyTransaction()
+    );
+    await this.runTest("Read-only call joining read-write warns", () =>
+      this.testReadOnlyJoinWarning()
+    );
+    await this.runTest("Isolation mismatch policy on join", () =>
+      this.testIsolationMismatchPolicy()
+    );
+    await this.runTest("Joining calls stay synchronous", () =>
+      this.testSynchronousJoin()
+    );
+    await this.runTest("setRollbackOnly dooms the shared transaction", () =>
+      this.testSetRollbackOnly()
+    );
+    await this.runTest("Rollback-only transaction can roll back quietly", () =>
+      this.testQuietRollbackOnly()
+    );
+    await this.runTest("noRollbackFor commits before re-throwing", () =>
+      this.testNoRollbackFor()
+    );
+    await this.runTest("rollbackFor takes precedence over noRollbackFor", () =>
+      this.testRollbackForPrecedence()
+    );
+    await this.runTest("Rollback rules accept non-Error classes", () =>
+      this.testNonErrorClassRule()
+    );
+    await this.runTest("Retry discards hooks of failed attempts", () =>
+      this.testRetryDiscardsFailedAttempts()
+    );
+    await this.runTest("Retry recovers from serialization failures", () =>
+      this.testRetrySerializationFailure()
+    );
+    await this.runTest("Start handlers set up the session", () =>
+      this.testTransactionStartHandlers()
+    );
+    await this.runTest("Completed transactions reject queries", () =>
+      this.testCompletedTransactionUsage()
+    );
+    await this.runTest("Propagation after the transaction completed", () =>
+      this.testPropagationAfterCompletion()
+    );
+  }
+
+  /**
+   * An expired timeout must cancel the statement on the server, roll the
+   * transaction back and hand the timeout error to the rollback hooks
+   */
+  private async testTimeoutCancelsStatement(): Promise<void> {
+    const db = this.getDatabase();
+    let rollbackError: Error | undefined;
+    const startedAt = Date.now();
+
+    try {
+      await runInTransaction(
+        async () => {
+          runOnTransactionRollback((error) => {
+            rollbackError = error;
+          });
+
+          await db
+            .insert(users)
+            .values({ name: "Timeout User", email: "timeout@test.com" });
+          await db.execute(sql`select pg_sleep(10)`);
+        },
+        { timeout: 200 }
+      );
+      throw new Error("Transaction should have timed out");
+    } catch (error) {
+      this.assert(
+        error instanceof DrizzleTransactionalError &&
+          error.code === "TRANSACTION_TIMEOUT",
+        `Expected TRANSACTION_TIMEOUT, got: ${error}`
+      );
+      this.assert(
+        rollbackError === error,
+        "Rollback hooks should receive the timeout error"
+      );
+    }
+
+    this.assert(
+      Date.now() - startedAt < 5000,
+      "Statement should be cancelled instead of running to completion"
+    );
+
+    // The statement is cancelled in the background
+    let sleeping = 1;
+    for (let check = 0; sleeping > 0 && check < 20; check++) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      const result = await db.execute(
+        sql`select pid from pg_stat_activity where state = 'active' and query like '%pg_sleep(10)%' and pid <> pg_backend_pid()`
+      );
+      sleeping = result.rows.length;
+    }
+    this.assert(sleeping === 0, "pg_sleep should be cancelled");
+
+    const stored = await db
+      .select()
+      .from(users)
+      .where(eq(users.email, "timeout@test.com"));
+    this.assert(stored.length === 0, "Timed out transaction should roll back");
+  }
+
+  /**
+   * Writes through the proxy fail fast, and raw writes are rejected by the
+   * server because the transaction really is READ ONLY
+   */
+  private async testReadOnlyTransaction(): Promise<void> {
+    const db = this.getDatabase();
+
+    await runInTransaction(
+      async () => {
+        try {
+          db.insert(users);
+          throw new Error("Insert should be rejected");
+        } catch (error) {
+          this.assert(
+            error instanceof DrizzleTransactionalError &&
+              error.code === "READ_ONLY_TRANSACTION",
+            `Expected READ_ONLY_TRANSACTION, got: ${error}`
+          );
+        }
+
+        // Reads keep working
+        await db.select().from(users);
+      },
+      { readOnly: true }
+    );
+
+    try {
+      await runInTransaction(
+        async () => {
+          await db.execute(
+            sql`insert into users (name, email) values ('RO', 'ro@test.com')`
+          );
+        },
+        { readOnly: true, deferrable: true }
+      );
+      throw new Error("Raw insert should be rejected by the server");
+    } catch (error: any) {
+      this.assert(
+        error?.code === "25006",
+        `Expected read_only_sql_transaction, got: ${error}`
+      );
+    }
+  }
+
+  /**
+   * A read-only REQUIRED call joining a read-write transaction logs a warning,
+   * even when isolation level mismatches are ignored
+   */
+  private async testReadOnlyJoinWarning(): Promise<void> {
+    const warnings: string[] = [];
+    const originalWarn = console.warn;
+    console.warn = (message: string) => warnings.push(message);
+
+    try {
+      await runInTransaction(async () => {
+        await runInTransaction(async () => undefined, {
+          readOnly: true,
+          name: "readReport",
+        });
+      });
+    } finally {
+      console.warn = originalWarn;
+    }
+
+    this.assert(
+      warnings.some((warning) => warning.includes("readReport")),
+      "Joining a read-write transaction read-only should warn"
+    );
+  }
+
+  /**
+   * Joining a READ COMMITTED transaction with a SERIALIZABLE request is
+   * rejected, warned about or ignored depending on the policy
+   */
+  private async testIsolationMismatchPolicy(): Promise<void> {
+    const joinSerializable = (policy: IsolationMismatchPolicy) =>
+      runInTransaction(
+        async () => {
+          await runInTransaction(async () => undefined, {
+            isolationLevel: IsolationLevel.SERIALIZABLE,
+            isolationMismatch: policy,
+            name: "serializableReport",
+          });
+        },
+        { isolationLevel: IsolationLevel.READ_COMMITTED }
+      );
+
+    try {
+      await joinSerializable(IsolationMismatchPolicy.THROW);
+      throw new Error("Joining with a different isolation should throw");
+    } catch (error) {
+      this.assert(
+        error instanceof DrizzleTransactionalError &&
+          error.code === "ISOLATION_MISMATCH",
+        `Expected ISOLATION_MISMATCH, got: ${error}`
+      );
+    }
+
+    const warnings: string[] = [];
+    const originalWarn = console.warn;
+    console.warn = (message: string) => warnings.push(message);
+
+    try {
+      await joinSerializable(IsolationMismatchPolicy.IGNORE);
+      this.assert(warnings.length === 0, "IGNORE should not warn");
+
+      await joinSerializable(IsolationMismatchPolicy.WARN);
+      this.assert(
+        warnings.some((warning) => warning.includes("serializableReport")),
+        "WARN should log the mismatch"
+      );
+    } finally {
+      console.warn = originalWarn;
+    }
+  }
+
+  /**
+   * A synchronous function that joins the current transaction returns its
+   * value, and a THROW mismatch throws, without going through a promise
+   */
+  private async testSynchronousJoin(): Promise<void> {
+    const readReport = wrapInTransaction(() => 42, { name: "readReport" });
+    const strictReport = wrapInTransaction(() => 42, {
+      readOnly: true,
+      isolationMismatch: IsolationMismatchPolicy.THROW,
+    });
+
+    await runInTransaction(async () => {
+      const result: unknown = readReport();
+      this.assert(result === 42, `Expected 42 synchronously, got ${result}`);
+
+      let thrown: unknown;
+      try {
+        strictReport();
+      } catch (error) {
+        thrown = error;
+      }
+      this.assert(
+        thrown instanceof DrizzleTransactionalError &&
+          thrown.code === "ISOLATION_MISMATCH",
+        `Expected ISOLATION_MISMATCH to be thrown synchronously, got: ${thrown}`
+      );
+    });
+  }
+
+  /**
+   * An inner participant that swallows its own error can still doom the
+   * shared transaction; the outer caller then gets UNEXPECTED_ROLLBACK
+   */
+  private async testSetRollbackOnly(): Promise<void> {
+    const db = this.getDatabase();
+    let rollbackError: Error | undefined;
+
+    try {
+      await runInTransaction(async () => {
+        runOnTransactionRollback((error) => {
+          rollbackError = error;
+        });
+
+        await db
+          .insert(users)
+          .values({ name: "Doomed User", email: "doomed@test.com" });
+
+        // Inner participant handles its failure without throwing
+        await runInTransaction(async () => {
+          try {
+            throw new Error("Validation failed");
+          } catch {
+            setRollbackOnly();
+          }
+        });
+
+        this.assert(isRollbackOnly(), "Transaction should be rollback-only");
+        return "done";
+      });
+      throw new Error("Outer call should not report success");
+    } catch (error) {
+      this.assert(
+        error instanceof DrizzleTransactionalError &&
+          error.code === "UNEXPECTED_ROLLBACK",
+        `Expected UNEXPECTED_ROLLBACK, got: ${error}`
+      );
+      this.assert(
+        rollbackError === error,
+        "Rollback hooks should receive the error"
+      );
+    }
+
+    const stored = await db
+      .select()
+      .from(users)
+      .where(eq(users.email, "doomed@test.com"));
+    this.assert(stored.length === 0, "Rollback-only work should be undone");
+  }
+
+  /**
+   * With failOnUnexpectedRollback disabled the result is returned while the
+   * transaction is still rolled back
+   */
+  private async testQuietRollbackOnly(): Promise<void> {
+    const db = this.getDatabase();
+
+    const result = await runInTransaction(
+      async () => {
+        await db
+          .insert(users)
+          .values({ name: "Dry Run User", email: "dry-run@test.com" });
+        setRollbackOnly();
+        return "dry run";
+      },
+      { failOnUnexpectedRollback: false }
+    );
+
+    this.assert(result === "dry run", "Result should be returned");
+
+    const stored = await db
+      .select()
+      .from(users)
+      .where(eq(users.email, "dry-run@test.com"));
+    this.assert(stored.length === 0, "Quiet rollback should undo the work");
+  }
+
+  /**
+   * An error matching noRollbackFor commits the writes done so far, fires the
+   * commit hooks and still reaches the caller
+   */
+  private async testNoRollbackFor(): Promise<void> {
+    const db = this.getDatabase();
+    let commitHookFired = false;
+    let rollbackHookFired = false;
+    const validationError = new BusinessRuleError("Credit limit reached");
+
+    try {
+      await runInTransaction(
+        async () => {
+          runOnTransactionCommit(() => {
+            commitHookFired = true;
+          });
+          runOnTransactionRollback(() => {
+            rollbackHookFired = true;
+          });
+
+          await db
+            .insert(users)
+            .values({ name: "Kept User", email: "no-rollback@test.com" });
+          throw validationError;
+        },
+        { noRollbackFor: BusinessRuleError }
+      );
+      throw new Error("Business error should be re-thrown");
+    } catch (error) {
+      this.assert(error === validationError, `Unexpected error: ${error}`);
+    }
+
+    this.assert(commitHookFired, "Commit hooks should fire");
+    this.assert(!rollbackHookFired, "Rollback hooks should not fire");
+
+    const stored = await db
+      .select()
+      .from(users)
+      .where(eq(users.email, "no-rollback@test.com"));
+    this.assert(stored.length === 1, "Writes should be committed");
+
+    // Errors that match no rule still roll back
+    try {
+      await runInTransaction(
+        async () => {
+          await db
+            .insert(users)
+            .values({ name: "Lost User", email: "rollback@test.com" });
+          throw new Error("Unexpected failure");
+        },
+        {
+          noRollbackFor: (error) =>
+            (error as Error).message === "Credit limit reached",
+        }
+      );
+    } catch (error) {
+      if (!(error instanceof Error) || error.message !== "Unexpected failure") {
+        throw error;
+      }
+    }
+
+    const lost = await db
+      .select()
+      .from(users)
+      .where(eq(users.email, "rollback@test.com"));
+    this.assert(lost.length === 0, "Other errors should roll back");
+  }
+
+  /**
+   * A subclass listed in rollbackFor rolls back although its parent class is
+   * listed in noRollbackFor
+   */
+  private async testRollbackForPrecedence(): Promise<void> {
+    const db = this.getDatabase();
+    let rollbackHookFired = false;
+
+    try {
+      await runInTransaction(
+        async () => {
+          runOnTransactionRollback(() => {
+            rollbackHookFired = true;
+          });
+
+          await db
+            .insert(users)
+            .values({ name: "Critical User", email: "critical@test.com" });
+          throw new CriticalBusinessRuleError("Account frozen");
+        },
+        {
+          noRollbackFor: [BusinessRuleError],
+          rollbackFor: [CriticalBusinessRuleError],
+        }
+      );
+    } catch (error) {
+      if (!(error instanceof CriticalBusinessRuleError)) {
+        throw error;
+      }
+    }
+
+    this.assert(rollbackHookFired, "Rollback hooks should fire");
+
+    const stored = await db
+      .select()
+      .from(users)
+      .where(eq(users.email, "critical@test.com"));
+    this.assert(stored.length === 0, "Critical error should roll back");
+  }
+
+  /**
+   * A class that doesn't extend Error is matched with instanceof instead of
+   * being called as a predicate
+   */
+  private async testNonErrorClassRule(): Promise<void> {
+    const db = this.getDatabase();
+
+    try {
+      await runInTransaction(
+        async () => {
+          await db
+            .insert(users)
+            .values({ name: "Signal User", email: "signal@test.com" });
+          throw new OutcomeSignal("partial");
+        },
+        { noRollbackFor: OutcomeSignal }
+      );
+      throw new Error("Signal should be re-thrown");
+    } catch (error) {
+      this.assert(
+        error instanceof OutcomeSignal,
+        `Expected the signal to be re-thrown, got: ${error}`
+      );
+    }
+
+    const stored = await db
+      .select()
+      .from(users)
+      .where(eq(users.email, "signal@test.com"));
+    this.assert(stored.length === 1, "Matching signal should commit");
+  }
+
+  /**
+   * A retried attempt must roll back its work and drop its hooks, so only the
+   * hooks of the successful attempt fire
+   */
+  private async testRetryDiscardsFailedAttempts(): Promise<void> {
+    const db = this.getDatabase();
+    const firedCommitHooks: number[] = [];
+    const firedBeforeCompletionHooks: number[] = [];
+    let rollbackHookFired = false;
+    let attempts = 0;
+
+    await runInTransaction(
+      async () => {
+        attempts++;
+        const attempt = attempts;
+
+        runOnTransactionCommit(() => firedCommitHooks.push(attempt));
+        runBeforeTransactionCompletion(() => {
+          firedBeforeCompletionHooks.push(attempt);
+        });
+        runOnTransactionRollback(() => {
+          rollbackHookFired = true;
+        });
+
+        await db.insert(users).values({
+          name: `Retry User ${attempt}`,
+          email: `retry-${attempt}@test.com`,
+        });
+
+        if (attempt === 1) {
+          throw new Error("flaky");
+        }
+      },
+      {
+        retry: {
+          initialDelay: 1,
+          isRetryable: (error) => (error as Error).message === "flaky",
+        },
+      }
+    );
+
+    this.assert(attempts === 2, "Function should run twice");
+    this.assert(
+      firedCommitHooks.length === 1 && firedCommitHooks[0] === 2,
+      "Only the successful attempt's commit hooks should fire"
+    );
+    this.assert(
+      firedBeforeCompletionHooks.join(",") === "2",
+      `Only the successful attempt's before-completion hooks should fire: ${firedBeforeCompletionHooks.join(
+        ","
+      )}`
+    );
+    this.assert(!rollbackHookFired, "Failed attempt hooks should be dropped");
+
+    const firstAttempt = await db
+      .select()
+      .from(users)
+      .where(eq(users.email, "retry-1@test.com"));
+    this.assert(firstAttempt.length === 0, "Failed attempt should roll back");
+  }
+
+  /**
+   * Two SERIALIZABLE transactions with a write skew make PostgreSQL abort one
+   * of them with SQLSTATE 40001; the retry policy must recover from that
+   */
+  private async testRetrySerializationFailure(): Promise<void> {
+    const db = this.getDatabase();
+    let readers = 0;
+    let releaseReaders: () => void = () => undefined;
+    const bothRead = new Promise<void>((resolve) => {
+      releaseReaders = resolve;
+    });
+    let attempts = 0;
+
+    const register = (suffix: string) =>
+      runInTransaction(
+        async () => {
+          attempts++;
+          const existing = await db
+            .select()
+            .from(users)
+            .where(sql`${users.email} like 'skew-%'`);
+
+          // Let both first attempts read before either of them writes
+          if (++readers <= 2) {
+            if (readers === 2) releaseReaders();
+            await bothRead;
+          }
+
+          await db.insert(users).values({
+            name: `Skew ${existing.length}`,
+            email: `skew-${suffix}@test.com`,
+          });
+        },
+        {
+          isolationLevel: IsolationLevel.SERIALIZABLE,
+          retry: { maxAttempts: 5, initialDelay: 5 },
+        }
+      );
+
+    await Promise.all([register("a"), register("b")]);
+
+    this.assert(attempts > 2, "One transaction should have been retried");
+
+    const stored = await db
+      .select()
+      .from(users)
+      .where(sql`${users.email} like 'skew-%'`);
+    this.assert(stored.length === 2, "Both transactions should commit");
+  }
+
+  /**
+   * Start handlers run after BEGIN and before the function, with the context
+   * values of the caller; per-database handlers only run for their database
+   */
+  private async testTransactionStartHandlers(): Promise<void> {
+    const db = this.getDatabase();
+    const started: string[] = [];
+
+    const removeGlobal = onTransactionStart((_, __, databaseName) => {
+      started.push(databaseName);
+    });
+    const removeDefault = onTransactionStart(async (tx, context) => {
+      await tx.execute(
+        sql`select set_config('app.user_id', ${String(context.userId)}, true)`
+      );
+    }, "default");
+
+    try {
+      const setting = await runWithContext({ userId: 7 }, () =>
+        runInTransaction(async () => {
+          const result: any = await db.execute(
+            sql`select current_setting('app.user_id') as user_id`
+          );
+          return result.rows[0].user_id;
+        })
+      );
+      this.assert(setting === "7", `Expected app.user_id 7, got ${setting}`);
+
+      await runInTransaction(async () => undefined, {
+        databaseName: "analytics",
+      });
+      this.assert(
+        started.join(",") === "default,analytics",
+        `Global handler should run for every database: ${started.join(",")}`
+      );
+
+      // SET LOCAL settings end with the transaction
+      const outside: any = await db.execute(
+        sql`select current_setting('app.user_id', true) as user_id`
+      );
+      this.assert(
+        !outside.rows[0].user_id,
+        "Setting should not outlive the transaction"
+      );
+    } finally {
+      removeGlobal();
+      removeDefault();
+    }
+  }
+
+  /**
+   * A transaction kept in a closure, a query builder created on it before
+   * the commit, or a proxy used from a timer started inside a transaction,
+   * fails with the name of the completed transaction
+   */
+  private async testCompletedTransactionUsage(): Promise<void> {
+    const db = this.getDatabase();
+    let captured: NodePgDatabase<any> | undefined;
+    let builder: PromiseLike<unknown> | undefined;
+    let fromTimer: Promise<unknown> | undefined;
+
+    const removeHandler = onTransactionStart((tx) => {
+      captured = tx as unknown as NodePgDatabase<any>;
+    });
+
+    try {
+      await runInTransaction(
+        async () => {
+          await db.select().from(users);
+          builder = captured!.select().from(users);
+          fromTimer = new Promise((resolve) => setTimeout(resolve, 50)).then(
+            () => db.select().from(users)
+          );
+        },
+        { name: "importUsers" }
+      );
+    } finally {
+      removeHandler();
+    }
+
+    // Inspecting or awaiting the completed transaction itself still works
+    inspect(captured);
+    this.assert(
+      (await Promise.resolve(captured)) === captured,
+      "Completed transaction should resolve to itself"
+    );
+
+    for (const use of [
+      () => captured!.select().from(users),
+      () => builder!,
+      () => fromTimer!,
+    ]) {
+      try {
+        await use();
+        throw new Error("Query should be rejected");
+      } catch (error) {
+        this.assert(
+          error instanceof DrizzleTransactionalError &&
+            error.code === "TRANSACTION_ALREADY_COMPLETED",
+          `Expected TRANSACTION_ALREADY_COMPLETED, got: ${error}`
+        );
+        this.assert(
+          error.message.includes('"importUsers"') &&
+            error.message.includes("(COMMITTED)") &&
+            error.message.includes("transaction-options-tests"),
+          `Error should name the transaction and where it started: ${error.message}`
+        );
+      }
+    }
+  }
+
+  /**
+   * REQUIRES_NEW and NOT_SUPPORTED calls made from a timer that outlived its
+   * transaction run as if there was no transaction
+   */
+  private async testPropagationAfterCompletion(): Promise<void> {
+    const db = this.getDatabase();
+    let fromTimer: Promise<[boolean, boolean]> | undefined;
+
+    await runInTransaction(async () => {
+      fromTimer = new Promise((resolve) => setTimeout(resolve, 50)).then(() =>
+        Promise.all([
+          runInTransaction(
+            async () => {
+              await db.select().from(users);
+              return db.isTransacting;
+            },
+            { propagation: Propagation.REQUIRES_NEW }
+          ),
+          runInTransaction(
+            async () => {
+              await db.select().from(users);
+              return db.isTransacting;
+            },
+            { propagation: Propagation.NOT_SUPPORTED }
+          ),
+        ])
+      );
+    });
+
+    const [requiresNew, notSupported] = await fromTimer!;
+    this.assert(requiresNew, "REQUIRES_NEW should start a new transaction");
+    this.assert(!notSupported, "NOT_SUPPORTED should run without one");
+  }
+}